@@ -0,0 +1,352 @@
+import { existsSync, mkdirSync, readFileSync, readdirSync, statSync, writeFileSync } from 'node:fs';
+import { basename, dirname, extname, join, resolve } from 'node:path';
+import {
+  AnalysisMode,
+  AxisCalibration,
+  ExtractionMask,
+  ExtractionSettings,
+  Extent,
+  ManifestLane,
+  MeasurementRegion,
+  Point,
+  ProjectManifest
+} from '../types';
+import { DEFAULT_EXTRACTION_SETTINGS, extractTrajectories } from '../services/imageProcessor';
+import { postProcessTrajectories } from '../services/postProcessor';
+import { diagnoseTrajectories } from '../services/diagnostics';
+import { isProjectDocument, migrateProject, normaliseExtractionSettings } from '../services/projectFile';
+import { ManifestError, isManifestDocument, parseJsonDocument, parseLegacyConfig, readManifest } from '../services/projectManifest';
+import {
+  LaneTrajectories,
+  buildTrajectoryJSON,
+  buildTrajectoryPointsCSV,
+  buildTrajectorySummaryCSV,
+  csvField
+} from '../services/trajectoryExporter';
+import { EdieMeasures, getEdieMeasures } from '../utils/geometry';
+import { createPixelTransform, getWorldBounds, offsetCalibration } from '../utils/calibration';
+import { decodeImage } from './imageDecoder';
+
+/**
+ * Headless batch processor: extracts every lane of a manifest, project file
+ * or image folder with the same pipeline as the extraction worker, measures
+ * a saved set of Edie regions on each lane and writes the results to disk.
+ *
+ * Exit codes: 0 all lanes processed, 1 some lanes failed, 2 invalid input.
+ */
+
+const USAGE = `Usage: npm run batch -- <input> [options]
+
+<input> is a manifest (Open_all.json), a legacy Open_all.txt, a project
+file (.tproj.json), a folder containing a manifest, or a folder / single
+file of lane images (.bmp, .png).
+
+Options:
+  --out <dir>         Output directory (default: batch-results)
+  --regions <file>    Measurement regions (.json), or a project file whose polygons are reused
+  --settings <file>   Extraction settings (.json), or a project file whose settings are reused
+  --extent <m>x<min>  Extent of images without a manifest (default: 640x15)
+  --format <f>        csv, json or all (default: all)
+  --quiet             Only report failures
+  --help              Show this message`;
+
+const IMAGE_FILE = /\.(bmp|png)$/i;
+const DEFAULT_EXTENT: Extent = { spatial: 640, temporal: 15 };
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+enum OutputFormat {
+  CSV = 'csv',
+  JSON = 'json',
+  ALL = 'all'
+}
+
+interface BatchOptions {
+  input: string;
+  out: string;
+  regions: string | null;
+  settings: string | null;
+  extent: Extent | null;
+  format: OutputFormat;
+  quiet: boolean;
+}
+
+interface BatchLane extends ManifestLane {
+  path: string;
+  embedded?: Buffer;            // Image stored in a project file
+  mask?: ExtractionMask | null; // ROI and exclusions saved with a project lane
+}
+
+interface LaneReport {
+  lane: string;
+  label?: string;
+  file: string;
+  status: 'ok' | 'failed';
+  error?: string;
+  trajectories: number;
+  issues: number;
+  regions: number;
+  durationMs: number;
+}
+
+interface RegionResult extends EdieMeasures {
+  lane: string;
+  region: string;
+}
+
+const parseArgs = (args: string[]): BatchOptions | null => {
+  const options: BatchOptions = { input: '', out: 'batch-results', regions: null, settings: null, extent: null, format: OutputFormat.ALL, quiet: false };
+  const value = (i: number, flag: string) => {
+    if (i >= args.length || args[i].startsWith('--')) throw new UsageError(`${flag} expects a value`);
+    return args[i];
+  };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case '--help': case '-h': return null;
+      case '--out': options.out = value(++i, arg); break;
+      case '--regions': options.regions = value(++i, arg); break;
+      case '--settings': options.settings = value(++i, arg); break;
+      case '--quiet': options.quiet = true; break;
+      case '--extent': {
+        const match = /^([\d.]+)x([\d.]+)$/.exec(value(++i, arg));
+        const spatial = Number(match?.[1]), temporal = Number(match?.[2]);
+        if (!match || !(spatial > 0) || !(temporal > 0)) throw new UsageError(`--extent expects <metres>x<minutes>, e.g. 640x15`);
+        options.extent = { spatial, temporal };
+        break;
+      }
+      case '--format': {
+        const format = value(++i, arg) as OutputFormat;
+        if (!Object.values(OutputFormat).includes(format)) throw new UsageError(`--format expects csv, json or all`);
+        options.format = format;
+        break;
+      }
+      default:
+        if (arg.startsWith('--')) throw new UsageError(`unknown option ${arg}`);
+        if (options.input) throw new UsageError(`unexpected argument ${arg}`);
+        options.input = arg;
+    }
+  }
+  if (!options.input) throw new UsageError('no input given');
+  return options;
+};
+
+const readJson = (path: string): unknown => parseJsonDocument(readFileSync(path, 'utf8'));
+
+const DATA_URL = /^data:image\/[\w+.-]+;base64,/;
+
+// Project lanes keep their calibration and mask; referenced images sit next to the project file
+const loadProject = (path: string, json: unknown): { manifest: ProjectManifest; lanes: BatchLane[] } => {
+  const project = migrateProject(json);
+  const root = dirname(path);
+  const lanes = project.lanes.map(lane => ({
+    ...lane.meta,
+    file: lane.name,
+    path: join(root, lane.name),
+    embedded: lane.image && DATA_URL.test(lane.image) ? Buffer.from(lane.image.replace(DATA_URL, ''), 'base64') : undefined,
+    extent: lane.meta?.extent ?? project.extent,
+    calibration: lane.data.calibration ?? undefined,
+    mask: lane.data.mask ?? null
+  }));
+  return { manifest: { extent: project.extent, lanes, extraction: project.extraction }, lanes };
+};
+
+// Manifest lanes with their image paths; lane file names are relative to the manifest
+const loadInput = (input: string, extent: Extent | null): { manifest: ProjectManifest; lanes: BatchLane[] } => {
+  if (!existsSync(input)) throw new UsageError(`${input} does not exist`);
+  let manifestPath: string | null = null;
+  let imageFiles: string[] = [];
+
+  if (statSync(input).isDirectory()) {
+    const files = readdirSync(input);
+    const find = (name: string) => files.find(f => f.toLowerCase() === name);
+    const config = find('open_all.json') ?? find('open_all.txt');
+    if (config) manifestPath = join(input, config);
+    else imageFiles = files.filter(f => IMAGE_FILE.test(f))
+      .sort((a, b) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' }))
+      .map(f => join(input, f));
+  } else if (IMAGE_FILE.test(input)) {
+    imageFiles = [input];
+  } else {
+    manifestPath = input;
+  }
+
+  if (manifestPath) {
+    let manifest: ProjectManifest;
+    if (extname(manifestPath).toLowerCase() === '.txt') {
+      manifest = parseLegacyConfig(readFileSync(manifestPath, 'utf8'));
+    } else {
+      const json = readJson(manifestPath);
+      if (isProjectDocument(json)) return loadProject(manifestPath, json);
+      if (!isManifestDocument(json)) throw new UsageError(`${manifestPath} is not a manifest or project file`);
+      manifest = readManifest(json);
+    }
+    const root = dirname(manifestPath);
+    // Manifest extents win over --extent, which only applies to bare images
+    return { manifest, lanes: manifest.lanes.map(lane => ({ ...lane, path: join(root, lane.file) })) };
+  }
+
+  if (imageFiles.length === 0) throw new UsageError(`no manifest or lane images found in ${input}`);
+  const laneExtent = extent ?? DEFAULT_EXTENT;
+  return {
+    manifest: { extent: laneExtent, lanes: [] },
+    lanes: imageFiles.map(path => ({ file: basename(path), path, extent: laneExtent }))
+  };
+};
+
+const readPoints = (raw: unknown, at: string): Point[] => {
+  if (!Array.isArray(raw) || raw.length < 3) throw new UsageError(`${at}: expected at least 3 { "x", "y" } points`);
+  return raw.map((p, i) => {
+    const x = Array.isArray(p) ? p[0] : p?.x;
+    const y = Array.isArray(p) ? p[1] : p?.y;
+    if (typeof x !== 'number' || typeof y !== 'number' || !isFinite(x) || !isFinite(y)) {
+      throw new UsageError(`${at}[${i}]: expected { "x": min, "y": m } or [min, m]`);
+    }
+    return { x, y };
+  });
+};
+
+/**
+ * Measurement regions from a regions file ({ "regions": [...] } or a bare
+ * list) or from the polygons drawn in a project file, kept per lane.
+ */
+const loadRegions = (path: string): MeasurementRegion[] => {
+  const json = readJson(path);
+  if (isProjectDocument(json)) {
+    // Loop detectors, platoons and grids also store their cells as polygon
+    // visuals; only drawn polygons have a POLYGON result at the same index
+    return migrateProject(json).lanes.flatMap(lane => lane.data.visuals.flatMap((v, i) => {
+      const result = lane.data.results[i];
+      if (v.mode !== AnalysisMode.POLYGON || result?.mode !== AnalysisMode.POLYGON) return [];
+      return [{ name: `${lane.name} P${result.batchId ?? i + 1}`, points: v.points, lane: lane.name }];
+    }));
+  }
+  const list = Array.isArray(json) ? json : (json as { regions?: unknown })?.regions;
+  if (!Array.isArray(list)) throw new UsageError(`${path}: expected a list of regions or a project file`);
+  return list.map((raw, i) => {
+    const at = `${path}: regions[${i}]`;
+    if (typeof raw !== 'object' || raw === null) throw new UsageError(`${at}: expected { "name", "points" }`);
+    const region: MeasurementRegion = { name: typeof raw.name === 'string' ? raw.name : `R${i + 1}`, points: readPoints(raw.points, `${at}.points`) };
+    if (typeof raw.lane === 'string') region.lane = raw.lane;
+    return region;
+  });
+};
+
+const loadSettings = (path: string): ExtractionSettings => {
+  const json = readJson(path);
+  if (isProjectDocument(json)) return migrateProject(json).extraction;
+  if (typeof json !== 'object' || json === null || Array.isArray(json)) throw new UsageError(`${path}: expected an object of extraction settings`);
+  return normaliseExtractionSettings((json as { extraction?: unknown }).extraction ?? json);
+};
+
+const matchesLane = (region: MeasurementRegion, lane: BatchLane) =>
+  region.lane === undefined || region.lane.toLowerCase() === lane.file.toLowerCase();
+
+// Same steps as the extraction worker: trace, post-process, diagnose
+const processLane = (lane: BatchLane, extent: Extent, settings: ExtractionSettings) => {
+  const image = decodeImage(lane.embedded ?? readFileSync(lane.path));
+  let calibration: AxisCalibration | null = lane.calibration ?? null;
+  if (!calibration && lane.offset) calibration = offsetCalibration(image.width, image.height, extent, lane.offset);
+
+  const output = extractTrajectories(image, extent, calibration, lane.mask ?? null, settings);
+  const processed = postProcessTrajectories(output.trajectories, settings.postProcessing);
+  const bounds = getWorldBounds(image.width, image.height, createPixelTransform(image.width, image.height, extent, calibration));
+  const diagnostics = diagnoseTrajectories(processed.trajectories, bounds, output.pixelStats);
+  return { trajectories: processed.trajectories, colorClasses: output.colorClasses, diagnostics };
+};
+
+const buildRegionResultsCSV = (results: RegionResult[]): string => {
+  const headers = ["Lane", "Region", "Area (m·min)", "TTD (m)", "TTT (min)", "Flow (veh/h)", "Density (veh/km)", "Speed (km/h)"];
+  const rows = results.map(r => [
+    csvField(r.lane),
+    csvField(r.region),
+    r.area.toFixed(3),
+    r.ttd.toFixed(3),
+    r.ttt.toFixed(5),
+    (r.flow * 60).toFixed(2),
+    (r.density * 1000).toFixed(2),
+    (r.speed * 60 / 1000).toFixed(2)
+  ].join(","));
+  return [headers.join(","), ...rows].join("\n");
+};
+
+const run = (options: BatchOptions): number => {
+  const log = (message: string) => { if (!options.quiet) console.error(message); };
+  const { manifest, lanes } = loadInput(options.input, options.extent);
+  const settings = options.settings
+    ? loadSettings(options.settings)
+    : manifest.extraction ?? DEFAULT_EXTRACTION_SETTINGS;
+  const regions = options.regions ? loadRegions(options.regions) : [];
+  log(`${manifest.name ?? options.input}: ${lanes.length} lanes, ${regions.length} measurement regions`);
+
+  const exported: LaneTrajectories[] = [];
+  const regionResults: RegionResult[] = [];
+  const reports: LaneReport[] = [];
+
+  lanes.forEach((lane, idx) => {
+    const started = Date.now();
+    const extent = lane.extent ?? manifest.extent;
+    const laneRegions = regions.filter(r => matchesLane(r, lane));
+    const report: LaneReport = { lane: lane.file, label: lane.label, file: lane.path, status: 'ok', trajectories: 0, issues: 0, regions: laneRegions.length, durationMs: 0 };
+    try {
+      const { trajectories, colorClasses, diagnostics } = processLane(lane, extent, settings);
+      exported.push({ lane: lane.label ?? lane.file, trajectories, colorClasses });
+      laneRegions.forEach(region => {
+        regionResults.push({ lane: lane.label ?? lane.file, region: region.name, ...getEdieMeasures(trajectories, region.points) });
+      });
+      report.trajectories = trajectories.length;
+      report.issues = diagnostics.issues.length;
+      report.durationMs = Date.now() - started;
+      log(`[${idx + 1}/${lanes.length}] ${lane.file}: ${trajectories.length} trajectories, ${report.issues} issues (${report.durationMs}ms)`);
+    } catch (err) {
+      report.status = 'failed';
+      report.error = err instanceof Error ? err.message : String(err);
+      report.durationMs = Date.now() - started;
+      console.error(`[${idx + 1}/${lanes.length}] ${lane.file}: FAILED - ${report.error}`);
+    }
+    reports.push(report);
+  });
+
+  mkdirSync(options.out, { recursive: true });
+  const write = (name: string, content: string) => writeFileSync(join(options.out, name), content);
+  if (options.format !== OutputFormat.JSON) {
+    write('trajectories.csv', buildTrajectoryPointsCSV(exported));
+    write('vehicles.csv', buildTrajectorySummaryCSV(exported));
+    if (regions.length > 0) write('regions.csv', buildRegionResultsCSV(regionResults));
+  }
+  if (options.format !== OutputFormat.CSV) {
+    write('trajectories.json', buildTrajectoryJSON(exported, manifest.extent));
+    if (regions.length > 0) write('regions.json', JSON.stringify(regionResults, null, 2));
+  }
+  const failed = reports.filter(r => r.status === 'failed').length;
+  write('report.json', JSON.stringify({ input: resolve(options.input), processedAt: new Date().toISOString(), failed, lanes: reports }, null, 2));
+
+  log(`${lanes.length - failed}/${lanes.length} lanes processed, results in ${resolve(options.out)}`);
+  return failed > 0 ? 1 : 0;
+};
+
+const main = (args: string[]): number => {
+  try {
+    const options = parseArgs(args);
+    if (!options) {
+      console.log(USAGE);
+      return 0;
+    }
+    return run(options);
+  } catch (err) {
+    if (err instanceof ManifestError) {
+      err.issues.forEach(issue => console.error(`Error: ${issue.location}: ${issue.message}`));
+    } else {
+      console.error(`Error: ${err instanceof Error ? err.message : err}`);
+    }
+    if (err instanceof UsageError) console.error(`\n${USAGE}`);
+    return 2;
+  }
+};
+
+process.exitCode = main(process.argv.slice(2));
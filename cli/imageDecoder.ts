@@ -0,0 +1,197 @@
+import { inflateSync } from 'node:zlib';
+import { PixelBuffer } from '../types';
+
+/**
+ * Minimal decoders for the lane image formats, so the batch processor runs
+ * without a canvas: uncompressed BMP (1/4/8/24/32 bit) and non-interlaced PNG.
+ */
+export class ImageDecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageDecodeError';
+  }
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Bit offset and width of a BI_BITFIELDS channel mask
+const maskShift = (mask: number) => {
+  if (mask === 0) return { shift: 0, bits: 0 };
+  let shift = 0;
+  while (((mask >>> shift) & 1) === 0) shift++;
+  let bits = 0;
+  while (((mask >>> (shift + bits)) & 1) === 1) bits++;
+  return { shift, bits };
+};
+
+export const decodeBmp = (buf: Buffer): PixelBuffer => {
+  if (buf.length < 54 || buf.toString('latin1', 0, 2) !== 'BM') throw new ImageDecodeError('not a BMP file');
+  const dataOffset = buf.readUInt32LE(10);
+  const headerSize = buf.readUInt32LE(14);
+  if (headerSize < 40) throw new ImageDecodeError('OS/2 bitmaps are not supported');
+  const width = buf.readInt32LE(18);
+  const rawHeight = buf.readInt32LE(22);
+  const bpp = buf.readUInt16LE(28);
+  const compression = buf.readUInt32LE(30);
+  const height = Math.abs(rawHeight);
+  const topDown = rawHeight < 0;
+  if (width <= 0 || height === 0) throw new ImageDecodeError(`invalid size ${width}x${rawHeight}`);
+  if (compression !== 0 && compression !== 3) throw new ImageDecodeError('compressed BMP files are not supported');
+  if (![1, 4, 8, 24, 32].includes(bpp)) throw new ImageDecodeError(`${bpp}-bit BMP files are not supported`);
+
+  let palette: number[][] = [];
+  if (bpp <= 8) {
+    const colours = buf.readUInt32LE(46) || (1 << bpp);
+    const start = 14 + headerSize;
+    for (let i = 0; i < colours; i++) {
+      const o = start + i * 4;
+      palette.push([buf[o + 2], buf[o + 1], buf[o]]);
+    }
+  }
+  // 32-bit BI_BITFIELDS masks follow a 40-byte header, or are part of a V4/V5 header
+  let masks = [0x00ff0000, 0x0000ff00, 0x000000ff];
+  if (compression === 3) masks = [buf.readUInt32LE(54), buf.readUInt32LE(58), buf.readUInt32LE(62)];
+  const channels = masks.map(maskShift);
+
+  const stride = Math.floor((bpp * width + 31) / 32) * 4;
+  if (dataOffset + stride * height > buf.length) throw new ImageDecodeError('file is truncated');
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    const row = dataOffset + (topDown ? y : height - 1 - y) * stride;
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      let rgb: number[];
+      if (bpp === 24) {
+        const o = row + x * 3;
+        rgb = [buf[o + 2], buf[o + 1], buf[o]];
+      } else if (bpp === 32) {
+        const v = buf.readUInt32LE(row + x * 4);
+        rgb = channels.map(c => c.bits === 0 ? 0 : Math.round(((v >>> c.shift) & ((1 << c.bits) - 1)) * 255 / ((1 << c.bits) - 1)));
+      } else {
+        const bit = x * bpp;
+        const index = (buf[row + (bit >> 3)] >> (8 - bpp - (bit & 7))) & ((1 << bpp) - 1);
+        rgb = palette[index] ?? [0, 0, 0];
+      }
+      data[i] = rgb[0];
+      data[i + 1] = rgb[1];
+      data[i + 2] = rgb[2];
+      data[i + 3] = 255;
+    }
+  }
+  return { data, width, height };
+};
+
+const paeth = (a: number, b: number, c: number) => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a), pb = Math.abs(p - b), pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+};
+
+export const decodePng = (buf: Buffer): PixelBuffer => {
+  if (buf.length < 8 || PNG_SIGNATURE.some((b, i) => buf[i] !== b)) throw new ImageDecodeError('not a PNG file');
+  let width = 0, height = 0, depth = 0, colorType = 0, interlace = 0;
+  let palette: Buffer | null = null;
+  let transparency: Buffer | null = null;
+  const chunks: Buffer[] = [];
+
+  for (let o = 8; o + 8 <= buf.length;) {
+    const length = buf.readUInt32BE(o);
+    const type = buf.toString('latin1', o + 4, o + 8);
+    const body = buf.subarray(o + 8, o + 8 + length);
+    if (type === 'IHDR') {
+      width = body.readUInt32BE(0);
+      height = body.readUInt32BE(4);
+      depth = body[8];
+      colorType = body[9];
+      interlace = body[12];
+    } else if (type === 'PLTE') palette = body;
+    else if (type === 'tRNS') transparency = body;
+    else if (type === 'IDAT') chunks.push(body);
+    else if (type === 'IEND') break;
+    o += 12 + length;
+  }
+  if (width === 0 || height === 0) throw new ImageDecodeError('missing PNG header');
+  if (interlace !== 0) throw new ImageDecodeError('interlaced PNG files are not supported');
+
+  const samples = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 }[colorType];
+  if (samples === undefined) throw new ImageDecodeError(`unknown PNG colour type ${colorType}`);
+  if (colorType === 3 && !palette) throw new ImageDecodeError('palette PNG without a palette');
+
+  let raw: Buffer;
+  try {
+    raw = inflateSync(Buffer.concat(chunks));
+  } catch {
+    throw new ImageDecodeError('corrupt PNG image data');
+  }
+
+  const bitsPerPixel = samples * depth;
+  const bpp = Math.max(1, bitsPerPixel >> 3); // Filter byte distance
+  const stride = Math.ceil(width * bitsPerPixel / 8);
+  if (raw.length < (stride + 1) * height) throw new ImageDecodeError('PNG image data is truncated');
+
+  // Undo the per-row filters in place
+  const rows = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const src = y * (stride + 1) + 1;
+    const cur = y * stride;
+    const prev = cur - stride;
+    for (let x = 0; x < stride; x++) {
+      const a = x >= bpp ? rows[cur + x - bpp] : 0;
+      const b = y > 0 ? rows[prev + x] : 0;
+      const c = x >= bpp && y > 0 ? rows[prev + x - bpp] : 0;
+      const v = raw[src + x];
+      switch (filter) {
+        case 0: rows[cur + x] = v; break;
+        case 1: rows[cur + x] = v + a; break;
+        case 2: rows[cur + x] = v + b; break;
+        case 3: rows[cur + x] = v + ((a + b) >> 1); break;
+        case 4: rows[cur + x] = v + paeth(a, b, c); break;
+        default: throw new ImageDecodeError(`invalid PNG filter ${filter} in row ${y}`);
+      }
+    }
+  }
+
+  // Sample n of pixel x in row y, scaled to 0..255
+  const maxValue = (1 << depth) - 1;
+  const sample = (y: number, x: number, n: number): number => {
+    const row = y * stride;
+    if (depth === 8) return rows[row + x * samples + n];
+    if (depth === 16) return rows[row + (x * samples + n) * 2];
+    const bit = (x * samples + n) * depth;
+    return (rows[row + (bit >> 3)] >> (8 - depth - (bit & 7))) & maxValue;
+  };
+  const scale = (v: number) => depth >= 8 ? v : Math.round(v * 255 / maxValue);
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      if (colorType === 3) {
+        const index = sample(y, x, 0);
+        data[i] = palette![index * 3];
+        data[i + 1] = palette![index * 3 + 1];
+        data[i + 2] = palette![index * 3 + 2];
+        data[i + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+      } else if (colorType === 0 || colorType === 4) {
+        const v = scale(sample(y, x, 0));
+        data[i] = data[i + 1] = data[i + 2] = v;
+        data[i + 3] = colorType === 4 ? scale(sample(y, x, 1)) : 255;
+      } else {
+        data[i] = scale(sample(y, x, 0));
+        data[i + 1] = scale(sample(y, x, 1));
+        data[i + 2] = scale(sample(y, x, 2));
+        data[i + 3] = colorType === 6 ? scale(sample(y, x, 3)) : 255;
+      }
+    }
+  }
+  return { data, width, height };
+};
+
+// Picks the decoder from the file's signature rather than its extension
+export const decodeImage = (buf: Buffer): PixelBuffer => {
+  if (buf.length >= 2 && buf.toString('latin1', 0, 2) === 'BM') return decodeBmp(buf);
+  if (PNG_SIGNATURE.every((b, i) => buf[i] === b)) return decodePng(buf);
+  throw new ImageDecodeError('unsupported image format (BMP and PNG can be read)');
+};
@@ -0,0 +1,108 @@
+import React from 'react';
+import { CartesianGrid, Label, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { CumulativeCounts, getObliqueSteps } from '../services/cumulativeCounts';
+import { X } from 'lucide-react';
+
+interface CumulativeCountsPanelProps {
+  counts: CumulativeCounts;
+  backgroundRate: number; // veh/min
+  freeSpeed: number;      // m/min
+  onBackgroundRateChange: (rate: number) => void;
+  onFreeSpeedChange: (speed: number) => void;
+  onClose: () => void;
+}
+
+// Also used for the cross-sections on the worksurface
+export const SECTION_COLORS = ['#0891b2', '#d97706', '#7c3aed', '#db2777', '#059669', '#dc2626'];
+
+const CumulativeCountsPanel: React.FC<CumulativeCountsPanelProps> = ({ counts, backgroundRate, freeSpeed, onBackgroundRateChange, onFreeSpeedChange, onClose }) => {
+  const isDarkMode = document.documentElement.classList.contains('dark');
+  const textColor = isDarkMode ? '#94a3b8' : '#64748b';
+  const gridColor = isDarkMode ? '#1e293b' : '#e2e8f0';
+
+  const t0 = Math.min(...counts.curves.filter(c => c.times.length > 0).map(c => c.times[0]));
+
+  return (
+    <div className="w-full h-full flex flex-col p-4 gap-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="text-[9px] font-bold text-slate-400 uppercase">Background Rate (veh/h)</label>
+          <input type="number" step="50" min="0" value={Math.round(backgroundRate * 60)} onChange={e => onBackgroundRateChange(Number(e.target.value) / 60)} className="w-full px-2 py-1 text-sm bg-white dark:bg-slate-900 border dark:border-slate-700 rounded-lg font-bold" title="Rate subtracted from every curve (oblique plot)" />
+        </div>
+        <div>
+          <label className="text-[9px] font-bold text-slate-400 uppercase">Free-Flow Speed (km/h)</label>
+          <input type="number" step="5" min="1" value={Math.round(freeSpeed * 60 / 1000)} onChange={e => onFreeSpeedChange(Number(e.target.value) * 1000 / 60)} className="w-full px-2 py-1 text-sm bg-white dark:bg-slate-900 border dark:border-slate-700 rounded-lg font-bold" title="Curves are shifted by the free-flow travel time from the upstream section" />
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-[160px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart margin={{ top: 10, right: 10, bottom: 20, left: 10 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke={gridColor} />
+            <XAxis type="number" dataKey="t" domain={['dataMin', 'dataMax']} tick={{ fontSize: 10, fill: textColor }} tickFormatter={(v: number) => v.toFixed(1)} stroke={textColor}>
+              <Label value="Shifted time (min)" position="bottom" offset={0} fill={textColor} fontSize={10} />
+            </XAxis>
+            <YAxis type="number" dataKey="n" domain={['auto', 'auto']} tick={{ fontSize: 10, fill: textColor }} tickFormatter={(v: number) => v.toFixed(0)} stroke={textColor}>
+              <Label value="N - q0 (t - t0)" angle={-90} position="insideLeft" fill={textColor} fontSize={10} />
+            </YAxis>
+            <Tooltip
+              formatter={(value: number) => value.toFixed(1)}
+              labelFormatter={(t: number) => `t = ${Number(t).toFixed(2)} min`}
+              contentStyle={{ fontSize: 10, background: isDarkMode ? '#0f172a' : '#ffffff', border: `1px solid ${gridColor}` }}
+            />
+            {counts.curves.map((curve, i) => (
+              <Line
+                key={curve.position}
+                data={getObliqueSteps(curve, backgroundRate, t0)}
+                dataKey="n"
+                name={`${curve.position.toFixed(0)} m`}
+                stroke={SECTION_COLORS[i % SECTION_COLORS.length]}
+                strokeWidth={1.5}
+                dot={false}
+                type="linear"
+                isAnimationActive={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      {!counts.aligned && (
+        <p className="text-[10px] text-rose-500">No vehicle crosses every section; each curve counts from zero.</p>
+      )}
+
+      <table className="w-full text-[10px] font-mono">
+        <thead className="text-slate-400 uppercase">
+          <tr>
+            <th className="text-left py-1">Section</th>
+            <th className="text-right py-1" title="Vehicles counted at both sections">N</th>
+            <th className="text-right py-1" title="Total delay (veh·min)">Delay</th>
+            <th className="text-right py-1" title="Average delay per vehicle (s)">Avg (s)</th>
+            <th className="text-right py-1" title="Largest number of queued vehicles between the sections">Queue</th>
+            <th className="text-right py-1" title="Downstream flow while a queue exists (veh/h)">Disch.</th>
+          </tr>
+        </thead>
+        <tbody className="text-slate-600 dark:text-slate-300">
+          {counts.comparisons.map((c, i) => (
+            <tr key={c.position}>
+              <td className="py-0.5 font-bold" style={{ color: SECTION_COLORS[(i + 1) % SECTION_COLORS.length] }}>
+                {counts.curves[0].position.toFixed(0)} → {c.position.toFixed(0)} m
+              </td>
+              <td className="py-0.5 text-right">{c.vehicles}</td>
+              <td className="py-0.5 text-right">{c.totalDelay.toFixed(1)}</td>
+              <td className="py-0.5 text-right">{(c.averageDelay * 60).toFixed(1)}</td>
+              <td className="py-0.5 text-right">{c.maxQueue}</td>
+              <td className="py-0.5 text-right">{c.dischargeRate === null ? '-' : (c.dischargeRate * 60).toFixed(0)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <button onClick={onClose} className="py-2 bg-slate-100 dark:bg-slate-800 border dark:border-slate-700 text-[10px] font-bold rounded-lg flex items-center justify-center gap-2 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors" title="Close the cumulative counts">
+        <X size={12} /> Close
+      </button>
+    </div>
+  );
+};
+
+export default CumulativeCountsPanel;
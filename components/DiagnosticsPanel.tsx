@@ -0,0 +1,97 @@
+import React from 'react';
+import { DiagnosticIssue, ExtractionDiagnostics, TrajectoryIssue } from '../types';
+import { AlertTriangle, Crosshair } from 'lucide-react';
+
+interface DiagnosticsPanelProps {
+  diagnostics: ExtractionDiagnostics;
+  selectedIssue: TrajectoryIssue | null;
+  highlightAll: boolean;
+  onSelectIssue: (issue: TrajectoryIssue | null) => void;
+  onToggleHighlightAll: () => void;
+}
+
+const ISSUE_LABELS: Record<DiagnosticIssue, string> = {
+  [DiagnosticIssue.CROSSING]: 'Crossing',
+  [DiagnosticIssue.OVERSPEED]: 'Too fast',
+  [DiagnosticIssue.BACKWARD]: 'Backward',
+  [DiagnosticIssue.FRAGMENT]: 'Fragment',
+};
+
+const percent = (share: number) => `${(share * 100).toFixed(0)}%`;
+
+const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ diagnostics, selectedIssue, highlightAll, onSelectIssue, onToggleHighlightAll }) => {
+  const maxBin = Math.max(1, ...diagnostics.durationHistogram.map(b => b.count));
+  const orphanShare = diagnostics.foregroundPixels > 0 ? diagnostics.orphanPixels / diagnostics.foregroundPixels : 0;
+  const counts: Partial<Record<DiagnosticIssue, number>> = {};
+  diagnostics.issues.forEach(issue => { counts[issue.kind] = (counts[issue.kind] || 0) + 1; });
+
+  const stats = [
+    { label: 'Trajectories', value: diagnostics.trajectoryCount.toString() },
+    { label: 'Fragments', value: diagnostics.fragments.toString() },
+    { label: 'Median (min)', value: diagnostics.medianDuration.toFixed(2) },
+    { label: 'Time cov.', value: percent(diagnostics.timeCoverage) },
+    { label: 'Space cov.', value: percent(diagnostics.spaceCoverage) },
+    { label: 'Domain cov.', value: percent(diagnostics.domainCoverage) },
+    { label: 'Orphan ink', value: percent(orphanShare) },
+  ];
+
+  return (
+    <div className="w-full h-full flex flex-col p-4 gap-3 overflow-y-auto custom-scrollbar">
+      <div className="grid grid-cols-3 gap-2">
+        {stats.map(s => (
+          <div key={s.label} className="bg-slate-50 dark:bg-slate-800 rounded-lg px-2 py-1.5 border dark:border-slate-700">
+            <div className="text-[8px] font-black uppercase tracking-wider text-slate-400">{s.label}</div>
+            <div className="text-xs font-mono font-bold text-slate-700 dark:text-slate-200">{s.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        <div className="text-[9px] font-black uppercase tracking-wider text-slate-400">Duration (min)</div>
+        {diagnostics.durationHistogram.map(bin => (
+          <div key={bin.label} className="flex items-center gap-2 text-[10px] font-mono">
+            <span className="w-20 shrink-0 text-slate-500">{bin.label}</span>
+            <div className="flex-1 h-2 bg-slate-100 dark:bg-slate-800 rounded">
+              <div className="h-2 bg-indigo-500 rounded" style={{ width: `${(bin.count / maxBin) * 100}%` }}></div>
+            </div>
+            <span className="w-8 text-right text-slate-600 dark:text-slate-300">{bin.count}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-1 flex-1 min-h-0">
+        <div className="flex justify-between items-center">
+          <div className="text-[9px] font-black uppercase tracking-wider text-slate-400 flex items-center gap-1">
+            <AlertTriangle size={10} /> Issues ({diagnostics.issues.length})
+            {Object.entries(counts).map(([kind, n]) => (
+              <span key={kind} className="ml-1 normal-case font-bold text-slate-500">{ISSUE_LABELS[kind as DiagnosticIssue]} {n}</span>
+            ))}
+          </div>
+          <button
+            onClick={onToggleHighlightAll}
+            className={`p-1 rounded-md border flex items-center gap-1 text-[9px] font-bold uppercase ${highlightAll ? 'bg-rose-50 dark:bg-rose-900/30 text-rose-600 border-rose-200 dark:border-rose-800' : 'bg-slate-50 dark:bg-slate-800 border-transparent text-slate-400 hover:text-slate-600'}`}
+            title="Highlight every flagged trajectory on the canvas"
+          >
+            <Crosshair size={10} /> All
+          </button>
+        </div>
+        <div className="space-y-0.5">
+          {diagnostics.issues.length === 0 && <div className="text-[10px] text-slate-400 italic">No suspicious trajectories.</div>}
+          {diagnostics.issues.map((issue, i) => (
+            <button
+              key={i}
+              onClick={() => onSelectIssue(issue === selectedIssue ? null : issue)}
+              className={`w-full text-left px-2 py-1 rounded text-[10px] flex gap-2 transition-colors ${issue === selectedIssue ? 'bg-rose-100 dark:bg-rose-900/40 text-rose-700 dark:text-rose-300' : 'text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800'}`}
+              title="Highlight on the canvas"
+            >
+              <span className="font-black uppercase w-16 shrink-0">{ISSUE_LABELS[issue.kind]}</span>
+              <span className="font-mono truncate">{issue.detail}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DiagnosticsPanel;
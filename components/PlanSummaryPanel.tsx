@@ -0,0 +1,57 @@
+import React from 'react';
+import { AnalysisMode, PlanSummaryRow } from '../types';
+import { Sheet, X } from 'lucide-react';
+
+interface PlanSummaryPanelProps {
+  rows: PlanSummaryRow[];
+  onExport: () => void;
+  onClose: () => void;
+}
+
+const MODE_LABELS: Partial<Record<AnalysisMode, string>> = {
+  [AnalysisMode.LINE]: 'Line',
+  [AnalysisMode.POLYGON]: 'Polygon',
+  [AnalysisMode.LOOP_DETECTOR]: 'Loop',
+  [AnalysisMode.PLATOON]: 'Platoon',
+};
+
+const PlanSummaryPanel: React.FC<PlanSummaryPanelProps> = ({ rows, onExport, onClose }) => (
+  <div className="w-full h-full flex flex-col p-4 gap-3">
+    <div className="flex-1 overflow-auto custom-scrollbar">
+      <table className="w-full text-[10px] font-mono">
+        <thead className="sticky top-0 bg-white dark:bg-slate-900 text-slate-400 uppercase">
+          <tr>
+            <th className="text-left py-1">Batch</th>
+            <th className="text-left py-1">Lane</th>
+            <th className="text-right py-1" title="Samples (crossings for lines)">N</th>
+            <th className="text-right py-1">q (veh/h)</th>
+            <th className="text-right py-1">k (veh/km)</th>
+            <th className="text-right py-1">v (km/h)</th>
+          </tr>
+        </thead>
+        <tbody className="text-slate-600 dark:text-slate-300">
+          {rows.map((r, i) => (
+            <tr key={i} className={r.lane === null ? 'font-black border-b dark:border-slate-700 text-indigo-600 dark:text-indigo-400' : ''}>
+              <td className="py-0.5">{r.lane === null ? '' : `${MODE_LABELS[r.mode] ?? r.mode} ${r.batchId}`}</td>
+              <td className="py-0.5 truncate max-w-[8rem]" title={r.lane ?? undefined}>{r.lane ?? 'All lanes'}</td>
+              <td className="py-0.5 text-right">{r.count ?? r.samples}</td>
+              <td className="py-0.5 text-right">{(r.flow * 60).toFixed(0)}</td>
+              <td className="py-0.5 text-right">{(r.density * 1000).toFixed(1)}</td>
+              <td className="py-0.5 text-right">{r.mode === AnalysisMode.LINE ? '-' : (r.speed * 60 / 1000).toFixed(1)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+    <div className="grid grid-cols-2 gap-2">
+      <button onClick={onExport} className="py-2 bg-slate-100 dark:bg-slate-800 border dark:border-slate-700 text-[10px] font-bold rounded-lg flex items-center justify-center gap-2 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors" title="Download the summary as CSV">
+        <Sheet size={12} /> CSV
+      </button>
+      <button onClick={onClose} className="py-2 bg-slate-100 dark:bg-slate-800 border dark:border-slate-700 text-[10px] font-bold rounded-lg flex items-center justify-center gap-2 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors" title="Close the summary">
+        <X size={12} /> Close
+      </button>
+    </div>
+  </div>
+);
+
+export default PlanSummaryPanel;
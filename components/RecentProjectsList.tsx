@@ -0,0 +1,31 @@
+import React from 'react';
+import { RecentProjectEntry } from '../types';
+import { FolderOpen, Trash2 } from 'lucide-react';
+
+interface RecentProjectsListProps {
+  entries: RecentProjectEntry[];
+  onOpen: (entry: RecentProjectEntry) => void;
+  onDelete: (entry: RecentProjectEntry) => void;
+}
+
+const RecentProjectsList: React.FC<RecentProjectsListProps> = ({ entries, onOpen, onDelete }) => (
+  <div className="bg-slate-50 dark:bg-slate-800 p-2 rounded-xl border dark:border-slate-700 max-h-[160px] overflow-y-auto custom-scrollbar space-y-1">
+    {entries.map(entry => (
+      <div key={entry.id} className="flex items-center gap-2 px-2 py-1.5 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors">
+        <button onClick={() => onOpen(entry)} className="flex-1 min-w-0 text-left" title={`Reopen ${entry.name}`}>
+          <div className="text-xs font-bold text-slate-600 dark:text-slate-300 truncate flex items-center gap-2">
+            <FolderOpen size={12} className="text-slate-400 shrink-0" /> {entry.name}
+          </div>
+          <div className="text-[9px] font-bold uppercase text-slate-400">
+            {new Date(entry.savedAt).toLocaleString()} · {entry.laneCount} lanes · {entry.trajectoryCount} traj.
+          </div>
+        </button>
+        <button onClick={() => onDelete(entry)} className="p-1 text-slate-400 hover:text-rose-500 transition-colors" title="Remove from recent projects">
+          <Trash2 size={12} />
+        </button>
+      </div>
+    ))}
+  </div>
+);
+
+export default RecentProjectsList;
@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { ScenarioModel, ScenarioSettings } from '../types';
+import { DEFAULT_SCENARIO_SETTINGS } from '../services/scenarioGenerator';
+import { FlaskConical, X } from 'lucide-react';
+
+export interface ScenarioRenderOptions {
+  lineWidth: number; // px
+  noise: number;     // Share of speckled pixels
+}
+
+interface ScenarioDialogProps {
+  onGenerate: (settings: ScenarioSettings, render: ScenarioRenderOptions | null) => void;
+  onCancel: () => void;
+}
+
+const inputClass = "w-full px-2 py-1 text-[10px] font-bold bg-slate-50 dark:bg-slate-800 border dark:border-slate-700 rounded-lg";
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  step?: number;
+  min?: number;
+  title?: string;
+}
+
+// Shows value rounded for display; emits only finite numbers
+const NumberField: React.FC<NumberFieldProps> = ({ label, value, onChange, step = 1, min, title }) => (
+  <div className="space-y-1">
+    <span className="text-[9px] font-bold uppercase text-slate-500">{label}</span>
+    <input
+      type="number" step={step} min={min} value={+value.toFixed(3)}
+      onChange={(e) => { const v = Number(e.target.value); if (isFinite(v)) onChange(v); }}
+      className={inputClass}
+      title={title ?? label}
+    />
+  </div>
+);
+
+const Toggle: React.FC<{ label: string; value: boolean; onChange: (value: boolean) => void; title: string }> = ({ label, value, onChange, title }) => (
+  <div className="flex justify-between items-center text-[10px] font-bold text-slate-400 uppercase">
+    <span>{label}</span>
+    <button
+      onClick={() => onChange(!value)}
+      className={`w-8 h-4 rounded-full transition-colors relative ${value ? 'bg-emerald-500' : 'bg-slate-200 dark:bg-slate-700'}`}
+      title={title}
+    >
+      <div className={`absolute top-0.5 w-3 h-3 rounded-full bg-white transition-transform ${value ? 'left-4.5 translate-x-1' : 'left-0.5'}`}></div>
+    </button>
+  </div>
+);
+
+// Speeds are edited in km/h, flows in veh/h and densities in veh/km
+const KMH = 1000 / 60;
+
+const ScenarioDialog: React.FC<ScenarioDialogProps> = ({ onGenerate, onCancel }) => {
+  const [settings, setSettings] = useState<ScenarioSettings>(DEFAULT_SCENARIO_SETTINGS);
+  const [render, setRender] = useState<boolean>(false);
+  const [renderOptions, setRenderOptions] = useState<ScenarioRenderOptions>({ lineWidth: 2, noise: 0 });
+
+  const update = (patch: Partial<ScenarioSettings>) => setSettings(prev => ({ ...prev, ...patch }));
+  const updateBottleneck = (patch: Partial<ScenarioSettings['bottleneck']>) => setSettings(prev => ({ ...prev, bottleneck: { ...prev.bottleneck, ...patch } }));
+  const updateStopAndGo = (patch: Partial<ScenarioSettings['stopAndGo']>) => setSettings(prev => ({ ...prev, stopAndGo: { ...prev.stopAndGo, ...patch } }));
+
+  const valid = settings.duration > 0 && settings.length > 0 && settings.freeSpeed > 0 && settings.waveSpeed < 0
+    && settings.jamDensity > 0 && settings.demand >= 0 && settings.timeStep > 0
+    && (!settings.bottleneck.enabled || (settings.bottleneck.speed > 0 && settings.bottleneck.length > 0))
+    && (!settings.stopAndGo.enabled || (settings.stopAndGo.period > settings.stopAndGo.stopDuration && settings.stopAndGo.stopDuration > 0));
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/40 backdrop-blur-sm flex items-center justify-center animate-in fade-in duration-200">
+      <div className="w-[26rem] max-h-[85vh] overflow-y-auto custom-scrollbar bg-white dark:bg-slate-900 border dark:border-slate-800 rounded-2xl shadow-2xl p-5 space-y-4">
+        <div className="flex justify-between items-center">
+          <h3 className="text-xs font-black uppercase text-slate-500 tracking-widest flex items-center gap-2"><FlaskConical size={14}/> Synthetic Scenario</h3>
+          <button onClick={onCancel} title="Close"><X size={14} className="text-slate-400 hover:text-slate-600" /></button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          <div className="space-y-1">
+            <span className="text-[9px] font-bold uppercase text-slate-500">Model</span>
+            <select
+              value={settings.model}
+              onChange={(e) => update({ model: e.target.value as ScenarioModel })}
+              className={inputClass}
+              title="Traffic flow model"
+            >
+              <option value={ScenarioModel.NEWELL}>Newell CF</option>
+              <option value={ScenarioModel.LWR}>LWR (CTM)</option>
+            </select>
+          </div>
+          <NumberField label="Duration (min)" value={settings.duration} min={0.5} step={0.5} onChange={v => update({ duration: v })} />
+          <NumberField label="Length (m)" value={settings.length} min={50} step={10} onChange={v => update({ length: v })} />
+        </div>
+
+        <div className="space-y-2 pt-2 border-t dark:border-slate-800">
+          <label className="text-[10px] font-bold text-slate-400 uppercase">Fundamental Diagram</label>
+          <div className="grid grid-cols-3 gap-2">
+            <NumberField label="Free (km/h)" value={settings.freeSpeed / KMH} min={1} onChange={v => update({ freeSpeed: v * KMH })} title="Free flow speed" />
+            <NumberField label="Wave (km/h)" value={settings.waveSpeed / KMH} step={0.5} onChange={v => update({ waveSpeed: v * KMH })} title="Congested wave speed (negative)" />
+            <NumberField label="Jam (veh/km)" value={settings.jamDensity * 1000} min={1} onChange={v => update({ jamDensity: v / 1000 })} title="Jam density" />
+          </div>
+        </div>
+
+        <div className="space-y-2 pt-2 border-t dark:border-slate-800">
+          <label className="text-[10px] font-bold text-slate-400 uppercase">Demand</label>
+          <div className="grid grid-cols-3 gap-2">
+            <NumberField label="Flow (veh/h)" value={settings.demand * 60} min={0} step={50} onChange={v => update({ demand: v / 60 })} title="Upstream arrival rate" />
+            <NumberField label="Step (s)" value={settings.timeStep * 60} min={0.1} step={0.1} onChange={v => update({ timeStep: v / 60 })} title="Simulation and output time step" />
+            <NumberField label="Seed" value={settings.seed} min={0} onChange={v => update({ seed: Math.round(v) })} title="Random seed for arrivals and noise" />
+          </div>
+          {settings.model === ScenarioModel.NEWELL && (
+            <Toggle label="Random arrivals" value={settings.randomArrivals} onChange={v => update({ randomArrivals: v })} title="Shifted exponential headways instead of uniform ones" />
+          )}
+        </div>
+
+        <div className="space-y-2 pt-2 border-t dark:border-slate-800">
+          <Toggle label="Bottleneck" value={settings.bottleneck.enabled} onChange={v => updateBottleneck({ enabled: v })} title="Zone with a lower free speed (and capacity)" />
+          {settings.bottleneck.enabled && (
+            <div className="grid grid-cols-3 gap-2">
+              <NumberField label="At (m)" value={settings.bottleneck.position} min={0} step={10} onChange={v => updateBottleneck({ position: v })} />
+              <NumberField label="Length (m)" value={settings.bottleneck.length} min={1} step={10} onChange={v => updateBottleneck({ length: v })} />
+              <NumberField label="Speed (km/h)" value={settings.bottleneck.speed / KMH} min={1} onChange={v => updateBottleneck({ speed: v * KMH })} />
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2 pt-2 border-t dark:border-slate-800">
+          <Toggle label="Stop-and-go" value={settings.stopAndGo.enabled} onChange={v => updateStopAndGo({ enabled: v })} title="Periodic full stops at a location, sending stop waves upstream" />
+          {settings.stopAndGo.enabled && (
+            <div className="grid grid-cols-2 gap-2">
+              <NumberField label="At (m)" value={settings.stopAndGo.position} min={0} step={10} onChange={v => updateStopAndGo({ position: v })} />
+              <NumberField label="First stop (min)" value={settings.stopAndGo.start} min={0} step={0.5} onChange={v => updateStopAndGo({ start: v })} />
+              <NumberField label="Period (min)" value={settings.stopAndGo.period} min={0.1} step={0.5} onChange={v => updateStopAndGo({ period: v })} />
+              <NumberField label="Stop (s)" value={settings.stopAndGo.stopDuration * 60} min={1} step={5} onChange={v => updateStopAndGo({ stopDuration: v / 60 })} />
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2 pt-2 border-t dark:border-slate-800">
+          <Toggle label="Render to image" value={render} onChange={setRender} title="Draw the trajectories and extract them again, keeping the exact ones as ground truth" />
+          {render && (
+            <div className="grid grid-cols-2 gap-2">
+              <NumberField label="Line width (px)" value={renderOptions.lineWidth} min={1} step={0.5} onChange={v => setRenderOptions(prev => ({ ...prev, lineWidth: v }))} />
+              <NumberField label="Noise (%)" value={renderOptions.noise * 100} min={0} step={0.1} onChange={v => setRenderOptions(prev => ({ ...prev, noise: Math.max(0, v) / 100 }))} title="Share of pixels turned into dark speckles" />
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-2 pt-2">
+          <button
+            onClick={onCancel}
+            className="flex-1 py-2 bg-slate-100 dark:bg-slate-800 border dark:border-slate-700 text-[10px] font-bold rounded-lg hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onGenerate(settings, render ? renderOptions : null)}
+            disabled={!valid}
+            className="flex-1 py-2 bg-indigo-600 text-white text-[10px] font-bold rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+          >
+            Generate
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScenarioDialog;
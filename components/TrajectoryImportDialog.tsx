@@ -0,0 +1,178 @@
+import React, { useMemo, useState } from 'react';
+import { ColumnMapping, DistanceUnit, TimeUnit, TrajectoryImportSettings } from '../types';
+import { DataTable, guessImportSettings, listLanes } from '../services/trajectoryImporter';
+import { Import, X } from 'lucide-react';
+
+interface TrajectoryImportDialogProps {
+  fileName: string;
+  table: DataTable;
+  onImport: (settings: TrajectoryImportSettings) => void;
+  onCancel: () => void;
+}
+
+const FIELD_LABELS: { field: keyof ColumnMapping; label: string; optional: boolean }[] = [
+  { field: 'vehicleId', label: 'Vehicle ID', optional: false },
+  { field: 'time', label: 'Time', optional: false },
+  { field: 'position', label: 'Position', optional: false },
+  { field: 'lane', label: 'Lane', optional: true },
+  { field: 'length', label: 'Length', optional: true },
+];
+
+const selectClass = "w-full px-2 py-1 text-[10px] font-bold bg-slate-50 dark:bg-slate-800 border dark:border-slate-700 rounded-lg";
+
+const TrajectoryImportDialog: React.FC<TrajectoryImportDialogProps> = ({ fileName, table, onImport, onCancel }) => {
+  const [settings, setSettings] = useState<TrajectoryImportSettings>(() => guessImportSettings(table.headers));
+  const lanes = useMemo(() => listLanes(table, settings.mapping.lane), [table, settings.mapping.lane]);
+
+  const setMapping = (field: keyof ColumnMapping, value: string) => {
+    setSettings(prev => ({
+      ...prev,
+      mapping: { ...prev.mapping, [field]: value === '' ? null : value },
+      lanes: field === 'lane' ? null : prev.lanes
+    }));
+  };
+
+  const toggleLane = (lane: string) => {
+    setSettings(prev => {
+      const current = prev.lanes ?? lanes;
+      const next = current.includes(lane) ? current.filter(l => l !== lane) : [...current, lane];
+      return { ...prev, lanes: next.length === lanes.length ? null : next };
+    });
+  };
+
+  const canImport = settings.mapping.vehicleId !== '' && settings.mapping.time !== '' && settings.mapping.position !== ''
+    && (settings.lanes === null || settings.lanes.length > 0);
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/40 backdrop-blur-sm flex items-center justify-center animate-in fade-in duration-200">
+      <div className="w-96 max-h-[85vh] overflow-y-auto custom-scrollbar bg-white dark:bg-slate-900 border dark:border-slate-800 rounded-2xl shadow-2xl p-5 space-y-4">
+        <div className="flex justify-between items-center">
+          <h3 className="text-xs font-black uppercase text-slate-500 tracking-widest flex items-center gap-2"><Import size={14}/> Import Trajectories</h3>
+          <button onClick={onCancel} title="Cancel Import"><X size={14} className="text-slate-400 hover:text-slate-600" /></button>
+        </div>
+        <p className="text-[10px] text-slate-500 truncate" title={fileName}>{fileName}: {table.rows.length} rows, {table.headers.length} columns</p>
+
+        <div className="space-y-2">
+          <label className="text-[10px] font-bold text-slate-400 uppercase">Columns</label>
+          {FIELD_LABELS.map(({ field, label, optional }) => (
+            <div key={field} className="grid grid-cols-3 gap-2 items-center">
+              <span className="text-[9px] font-bold uppercase text-slate-500">{label}</span>
+              <select
+                value={settings.mapping[field] ?? ''}
+                onChange={(e) => setMapping(field, e.target.value)}
+                className={`col-span-2 ${selectClass}`}
+                title={`Column holding the ${label.toLowerCase()}`}
+              >
+                {optional && <option value="">(none)</option>}
+                {table.headers.map(h => <option key={h} value={h}>{h}</option>)}
+              </select>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2 pt-2 border-t dark:border-slate-800">
+          <label className="text-[10px] font-bold text-slate-400 uppercase">Units</label>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <span className="text-[9px] font-bold uppercase text-slate-500">Time</span>
+              <select
+                value={settings.timeUnit}
+                onChange={(e) => setSettings(prev => ({ ...prev, timeUnit: e.target.value as TimeUnit }))}
+                className={selectClass}
+                title="Unit of the time column"
+              >
+                <option value={TimeUnit.MILLISECONDS}>Milliseconds</option>
+                <option value={TimeUnit.SECONDS}>Seconds</option>
+                <option value={TimeUnit.MINUTES}>Minutes</option>
+                <option value={TimeUnit.FRAMES}>Frames</option>
+              </select>
+            </div>
+            <div className="space-y-1">
+              <span className="text-[9px] font-bold uppercase text-slate-500">Distance</span>
+              <select
+                value={settings.distanceUnit}
+                onChange={(e) => setSettings(prev => ({ ...prev, distanceUnit: e.target.value as DistanceUnit }))}
+                className={selectClass}
+                title="Unit of the position and length columns"
+              >
+                <option value={DistanceUnit.METRES}>Metres</option>
+                <option value={DistanceUnit.FEET}>Feet</option>
+                <option value={DistanceUnit.KILOMETRES}>Kilometres</option>
+              </select>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            {settings.timeUnit === TimeUnit.FRAMES && (
+              <div className="space-y-1">
+                <span className="text-[9px] font-bold uppercase text-slate-500">Frame rate (Hz)</span>
+                <input
+                  type="number" min="1" step="1" value={settings.frameRate}
+                  onChange={(e) => setSettings(prev => ({ ...prev, frameRate: Math.max(1, Number(e.target.value)) }))}
+                  className={selectClass}
+                  title="Frames per second"
+                />
+              </div>
+            )}
+            <div className="space-y-1">
+              <span className="text-[9px] font-bold uppercase text-slate-500">Split gap (s)</span>
+              <input
+                type="number" min="0.1" step="0.5" value={+(settings.maxTimeGap * 60).toFixed(2)}
+                onChange={(e) => setSettings(prev => ({ ...prev, maxTimeGap: Math.max(0.1, Number(e.target.value)) / 60 }))}
+                className={selectClass}
+                title="Start a new trajectory when a vehicle is missing for longer than this"
+              />
+            </div>
+          </div>
+        </div>
+
+        {lanes.length > 0 && (
+          <div className="space-y-2 pt-2 border-t dark:border-slate-800">
+            <div className="flex justify-between items-center">
+              <label className="text-[10px] font-bold text-slate-400 uppercase">Lanes</label>
+              <button
+                onClick={() => setSettings(prev => ({ ...prev, lanes: null }))}
+                className="text-[9px] font-bold uppercase text-indigo-600 hover:underline"
+                title="Import every lane"
+              >
+                All
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {lanes.map(lane => {
+                const active = settings.lanes === null || settings.lanes.includes(lane);
+                return (
+                  <button
+                    key={lane}
+                    onClick={() => toggleLane(lane)}
+                    className={`px-2 py-1 rounded-lg text-[10px] font-bold border transition-colors ${active ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-slate-50 dark:bg-slate-800 text-slate-500 dark:border-slate-700'}`}
+                    title={`Toggle lane ${lane}`}
+                  >
+                    {lane}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-2 pt-2">
+          <button
+            onClick={onCancel}
+            className="flex-1 py-2 bg-slate-100 dark:bg-slate-800 border dark:border-slate-700 text-[10px] font-bold rounded-lg hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onImport(settings)}
+            disabled={!canImport}
+            className="flex-1 py-2 bg-indigo-600 text-white text-[10px] font-bold rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TrajectoryImportDialog;
@@ -0,0 +1,101 @@
+import React, { useMemo } from 'react';
+import { CartesianGrid, Line, LineChart, ReferenceLine, ResponsiveContainer, XAxis, YAxis } from 'recharts';
+import { Neighbour, Neighbours, VehicleProfile } from '../services/vehicleInspector';
+import { X } from 'lucide-react';
+
+interface VehicleInspectorPanelProps {
+  trajectoryId: number;
+  profile: VehicleProfile;
+  time: number;                 // min
+  neighbours: Neighbours | null;
+  onTimeChange: (t: number) => void;
+  onClose: () => void;
+}
+
+// Also used for the highlighted vehicles on the worksurface
+export const INSPECTOR_COLORS = { vehicle: '#8b5cf6', leader: '#10b981', follower: '#f97316' };
+
+const toSpeedKmh = (u: number) => (u * 60) / 1000;
+const toAccelerationMs2 = (a: number) => a / 3600;
+
+const CHARTS = [
+  { key: 'position', label: 'Position (m)', digits: 0 },
+  { key: 'speed', label: 'Speed (km/h)', digits: 0 },
+  { key: 'acceleration', label: 'Accel. (m/s²)', digits: 1 },
+] as const;
+
+const VehicleInspectorPanel: React.FC<VehicleInspectorPanelProps> = ({ trajectoryId, profile, time, neighbours, onTimeChange, onClose }) => {
+  const isDarkMode = document.documentElement.classList.contains('dark');
+  const textColor = isDarkMode ? '#94a3b8' : '#64748b';
+  const gridColor = isDarkMode ? '#1e293b' : '#e2e8f0';
+
+  const data = useMemo(() => profile.samples.map(s => ({
+    t: s.t,
+    position: s.position,
+    speed: toSpeedKmh(s.speed),
+    acceleration: toAccelerationMs2(s.acceleration)
+  })), [profile]);
+  const tStart = profile.samples[0]?.t ?? 0;
+  const tEnd = profile.samples[profile.samples.length - 1]?.t ?? 0;
+
+  const neighbourRow = (label: string, color: string, n: Neighbour | null) => (
+    <tr>
+      <td className="py-0.5 font-bold" style={{ color }}>{label}</td>
+      <td className="py-0.5 text-right">{n ? `#${n.trajectoryId}` : '-'}</td>
+      <td className="py-0.5 text-right">{n ? n.spacing.toFixed(1) : '-'}</td>
+      <td className="py-0.5 text-right">{n && n.headway !== null ? (n.headway * 60).toFixed(1) : '-'}</td>
+    </tr>
+  );
+
+  return (
+    <div className="w-full h-full flex flex-col p-4 gap-3">
+      <div className="grid grid-cols-3 gap-2 text-[10px] text-slate-500 dark:text-slate-400">
+        <div><div className="text-[9px] font-bold text-slate-400 uppercase">Travel</div><span className="font-bold text-slate-700 dark:text-slate-200">{(profile.travelTime * 60).toFixed(1)} s</span> / {profile.distance.toFixed(0)} m</div>
+        <div><div className="text-[9px] font-bold text-slate-400 uppercase">Avg Speed</div><span className="font-bold text-slate-700 dark:text-slate-200">{toSpeedKmh(profile.averageSpeed).toFixed(1)} km/h</span></div>
+        <div><div className="text-[9px] font-bold text-slate-400 uppercase">Stops</div><span className="font-bold text-slate-700 dark:text-slate-200">{profile.stops}</span> / {(profile.stoppedTime * 60).toFixed(1)} s stopped</div>
+      </div>
+
+      <div className="flex-1 min-h-[240px] flex flex-col">
+        {CHARTS.map((chart, i) => (
+          <div key={chart.key} className="flex-1 min-h-0">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={data} syncId={`inspector-${trajectoryId}`} margin={{ top: 6, right: 10, bottom: 0, left: 0 }} onClick={state => { if (state?.activeLabel !== undefined) onTimeChange(Number(state.activeLabel)); }}>
+                <CartesianGrid strokeDasharray="3 3" stroke={gridColor} />
+                <XAxis type="number" dataKey="t" domain={[tStart, tEnd]} hide={i < CHARTS.length - 1} tick={{ fontSize: 10, fill: textColor }} tickFormatter={(v: number) => v.toFixed(2)} stroke={textColor} />
+                <YAxis type="number" domain={['auto', 'auto']} width={44} tick={{ fontSize: 10, fill: textColor }} tickFormatter={(v: number) => v.toFixed(chart.digits)} stroke={textColor} label={{ value: chart.label, angle: -90, position: 'insideLeft', fill: textColor, fontSize: 9, dy: 30 }} />
+                <ReferenceLine x={time} stroke={INSPECTOR_COLORS.vehicle} strokeDasharray="4 3" />
+                <Line dataKey={chart.key} stroke={INSPECTOR_COLORS.vehicle} strokeWidth={1.5} dot={false} type="linear" isAnimationActive={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <label className="text-[9px] font-bold text-slate-400 uppercase">Time: {time.toFixed(2)} min{neighbours ? ` @ ${neighbours.at.y.toFixed(1)} m` : ''}</label>
+        <input type="range" min={tStart} max={tEnd} step={Math.max((tEnd - tStart) / 500, 1e-4)} value={time} onChange={e => onTimeChange(Number(e.target.value))} className="w-full accent-violet-500" title="Time at which leader and follower are shown (or click a chart)" />
+      </div>
+
+      <table className="w-full text-[10px] font-mono">
+        <thead className="text-slate-400 uppercase">
+          <tr>
+            <th className="text-left py-1">Neighbour</th>
+            <th className="text-right py-1">Vehicle</th>
+            <th className="text-right py-1" title="Front-to-front distance (m)">Spacing</th>
+            <th className="text-right py-1" title="Time between both vehicles passing the same position (s)">Headway</th>
+          </tr>
+        </thead>
+        <tbody className="text-slate-600 dark:text-slate-300">
+          {neighbourRow('Leader', INSPECTOR_COLORS.leader, neighbours?.leader ?? null)}
+          {neighbourRow('Follower', INSPECTOR_COLORS.follower, neighbours?.follower ?? null)}
+        </tbody>
+      </table>
+
+      <button onClick={onClose} className="py-2 bg-slate-100 dark:bg-slate-800 border dark:border-slate-700 text-[10px] font-bold rounded-lg flex items-center justify-center gap-2 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors" title="Close the inspector">
+        <X size={12} /> Close
+      </button>
+    </div>
+  );
+};
+
+export default VehicleInspectorPanel;
@@ -0,0 +1,17 @@
+/**
+ * Browser-only pixel access. The extraction services work on PixelBuffers,
+ * so they also run in the worker and the command-line batch processor.
+ */
+
+/**
+ * Reads the pixels of a loaded image element.
+ */
+export const getImageDataFromImage = (img: HTMLImageElement): ImageData | null => {
+  const canvas = document.createElement('canvas');
+  canvas.width = img.width;
+  canvas.height = img.height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(img, 0, 0);
+  return ctx.getImageData(0, 0, img.width, img.height);
+};
@@ -0,0 +1,124 @@
+import { Trajectory, TravelDirection } from '../types';
+import { getTrajectoryIntersectionWithLine, getTravelDirection } from './measurements';
+
+export const DEFAULT_FREE_FLOW_SPEED = 1500; // m/min (90 km/h)
+
+// Shifted crossings closer than this (min) count as simultaneous
+const TIME_TOLERANCE = 1e-6;
+
+/**
+ * N(t) at a cross-section: the n-th crossing (0-based) raises the count to
+ * base + n + 1. Times are shifted back by the free-flow travel time from the
+ * upstream section, so curves coincide wherever traffic is free-flowing.
+ */
+export interface CumulativeCurve {
+  position: number; // m
+  shift: number;    // Free-flow travel time from the upstream section (min)
+  times: number[];  // Shifted crossing times, ascending (min)
+  base: number;
+}
+
+// Each downstream section against the upstream one
+export interface CurveComparison {
+  position: number;
+  vehicles: number;             // Vehicles counted at both sections
+  totalDelay: number;           // veh·min
+  averageDelay: number;         // min
+  maxQueue: number;             // veh between the sections beyond free-flow
+  dischargeRate: number | null; // veh/min downstream while queued, null without a queue
+}
+
+export interface CumulativeCounts {
+  curves: CumulativeCurve[];    // Upstream first
+  comparisons: CurveComparison[];
+  aligned: boolean;             // Counts share a vehicle crossing every section
+  upstreamRate: number;         // Mean flow at the upstream section (veh/min)
+}
+
+const countAt = (curve: CumulativeCurve, t: number): number => {
+  // Crossings at or before t (binary search)
+  let lo = 0, hi = curve.times.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (curve.times[mid] <= t) lo = mid + 1; else hi = mid;
+  }
+  return curve.base + lo;
+};
+
+const compareCurves = (up: CumulativeCurve, down: CumulativeCurve): CurveComparison => {
+  const comparison: CurveComparison = { position: down.position, vehicles: 0, totalDelay: 0, averageDelay: 0, maxQueue: 0, dischargeRate: null };
+  if (up.times.length === 0 || down.times.length === 0) return comparison;
+
+  // Delay of vehicle n: horizontal distance between the curves at count n
+  for (let i = 0; i < down.times.length; i++) {
+    const j = down.base + i - up.base;
+    if (j < 0 || j >= up.times.length) continue;
+    comparison.vehicles++;
+    comparison.totalDelay += down.times[i] - up.times[j];
+  }
+  comparison.averageDelay = comparison.vehicles > 0 ? comparison.totalDelay / comparison.vehicles : 0;
+
+  // Queue: vertical distance, only where both sections are observed
+  const start = Math.max(up.times[0], down.times[0]);
+  const end = Math.min(up.times[up.times.length - 1], down.times[down.times.length - 1]);
+  const events = [...up.times, ...down.times].filter(t => t >= start && t <= end).sort((a, b) => a - b);
+  let queuedTime = 0, discharged = 0;
+  events.forEach((t, i) => {
+    const queue = countAt(up, t) - countAt(down, t + TIME_TOLERANCE);
+    comparison.maxQueue = Math.max(comparison.maxQueue, queue);
+    if (queue >= 1 && i + 1 < events.length) {
+      const next = events[i + 1];
+      queuedTime += next - t;
+      discharged += countAt(down, next + TIME_TOLERANCE) - countAt(down, t + TIME_TOLERANCE);
+    }
+  });
+  comparison.dischargeRate = queuedTime > 0 ? discharged / queuedTime : null;
+  return comparison;
+};
+
+/**
+ * Newell's cumulative counts at the given positions. Counts are aligned on
+ * the first vehicle crossing every section; without one, each section counts
+ * from zero and aligned is false.
+ */
+export const buildCumulativeCounts = (trajectories: Trajectory[], positions: number[], freeSpeed: number, declared?: TravelDirection): CumulativeCounts => {
+  const direction = getTravelDirection(trajectories, declared);
+  const ordered = [...positions].sort((a, b) => direction * (a - b));
+  const upstream = ordered[0];
+
+  const crossings = ordered.map(y => trajectories
+    .map(traj => ({ id: traj.id, t: getTrajectoryIntersectionWithLine(traj, 0, y)?.x }))
+    .filter((c): c is { id: number; t: number } => c.t !== undefined)
+    .sort((a, b) => a.t - b.t));
+
+  const counted = crossings.map(list => new Set(list.map(c => c.id)));
+  const reference = crossings[0]?.find(c => counted.every(ids => ids.has(c.id)));
+  const refIndex = crossings.map(list => reference ? list.findIndex(c => c.id === reference.id) : 0);
+  const maxRef = Math.max(0, ...refIndex);
+
+  const curves = ordered.map((position, i) => {
+    const shift = Math.abs(position - upstream) / freeSpeed;
+    return { position, shift, times: crossings[i].map(c => c.t - shift), base: maxRef - refIndex[i] };
+  });
+  const first = crossings[0] ?? [];
+  const span = first.length > 1 ? first[first.length - 1].t - first[0].t : 0;
+  return {
+    curves,
+    comparisons: curves.slice(1).map(curve => compareCurves(curves[0], curve)),
+    aligned: reference !== undefined,
+    upstreamRate: span > 0 ? (first.length - 1) / span : 0
+  };
+};
+
+/**
+ * Steps of the oblique plot: N(t) - rate (t - t0), so a constant background
+ * rate shows as a horizontal line and changes in flow stand out.
+ */
+export const getObliqueSteps = (curve: CumulativeCurve, rate: number, t0: number): { t: number; n: number }[] => {
+  const steps: { t: number; n: number }[] = [];
+  curve.times.forEach((t, i) => {
+    const reduce = rate * (t - t0);
+    steps.push({ t, n: curve.base + i - reduce }, { t, n: curve.base + i + 1 - reduce });
+  });
+  return steps;
+};
@@ -0,0 +1,186 @@
+import { DiagnosticIssue, ExtractionDiagnostics, Point, Trajectory, TrajectoryIssue } from '../types';
+import { WorldBounds } from '../utils/calibration';
+
+// 180 km/h in m/min: anything faster is a tracing error, not a vehicle
+export const MAX_PLAUSIBLE_SPEED = 3000;
+
+// Speeds are measured over at least this share of the time range (pixel steps are not speeds)
+const SPEED_SPAN_SHARE = 1 / 200;
+// Ends closer than this share of the range to a border count as entering/leaving the domain
+const BORDER_SHARE = 0.03;
+const GRID_CELLS = 20;
+const CROSSING_SAMPLES = 400;
+// Keeps the report readable on badly processed images
+const MAX_ISSUES_PER_KIND = 200;
+
+// Total length of the union of intervals, clipped to [lo, hi]
+const intervalUnion = (intervals: [number, number][], lo: number, hi: number): number => {
+  const sorted = intervals
+    .map(([a, b]): [number, number] => [Math.max(lo, a), Math.min(hi, b)])
+    .filter(([a, b]) => b > a)
+    .sort((a, b) => a[0] - b[0]);
+  let total = 0, start = -Infinity, end = -Infinity;
+  sorted.forEach(([a, b]) => {
+    if (a > end) {
+      if (end > start) total += end - start;
+      start = a; end = b;
+    } else {
+      end = Math.max(end, b);
+    }
+  });
+  if (end > start) total += end - start;
+  return total;
+};
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = values.slice().sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Position at time t, or NaN outside the trajectory's time span
+const sampleAt = (points: Point[], times: number[]): Float64Array => {
+  const out = new Float64Array(times.length).fill(NaN);
+  let k = 0;
+  times.forEach((t, i) => {
+    if (t < points[0].x || t > points[points.length - 1].x) return;
+    while (k < points.length - 2 && points[k + 1].x < t) k++;
+    const a = points[k], b = points[k + 1];
+    const r = b.x - a.x > 1e-12 ? (t - a.x) / (b.x - a.x) : 0;
+    out[i] = a.y + r * (b.y - a.y);
+  });
+  return out;
+};
+
+/**
+ * Quality report of an extraction run: how much of the time-space domain the
+ * trajectories cover and which of them look wrong. Pixel counts come from
+ * the extractor (0 when unknown).
+ */
+export const diagnoseTrajectories = (
+  trajectories: Trajectory[],
+  bounds: WorldBounds,
+  pixelStats: { foregroundPixels: number; orphanPixels: number } = { foregroundPixels: 0, orphanPixels: 0 }
+): ExtractionDiagnostics => {
+  const tRange = Math.max(1e-9, bounds.tMax - bounds.tMin);
+  const yRange = Math.max(1e-9, bounds.yMax - bounds.yMin);
+  const valid = trajectories.filter(t => t.points.length >= 2);
+  const issues: Record<DiagnosticIssue, TrajectoryIssue[]> = {
+    [DiagnosticIssue.BACKWARD]: [],
+    [DiagnosticIssue.OVERSPEED]: [],
+    [DiagnosticIssue.CROSSING]: [],
+    [DiagnosticIssue.FRAGMENT]: []
+  };
+  const report = (issue: TrajectoryIssue) => {
+    if (issues[issue.kind].length < MAX_ISSUES_PER_KIND) issues[issue.kind].push(issue);
+  };
+
+  // Durations
+  const durations = valid.map(t => t.points[t.points.length - 1].x - t.points[0].x);
+  const edges = [0.05, 0.1, 0.25, 0.5].map(f => f * tRange);
+  const fmt = (v: number) => v.toFixed(tRange < 20 ? 2 : 1);
+  const durationHistogram = [...edges, Infinity].map((edge, i) => ({
+    label: i === 0 ? `<${fmt(edges[0])}` : edge === Infinity ? `≥${fmt(edges[i - 1])}` : `${fmt(edges[i - 1])}–${fmt(edge)}`,
+    count: durations.filter(d => d < edge && (i === 0 || d >= edges[i - 1])).length
+  }));
+
+  // Coverage
+  const timeCoverage = intervalUnion(valid.map(t => [t.points[0].x, t.points[t.points.length - 1].x]), bounds.tMin, bounds.tMax) / tRange;
+  const spaceCoverage = intervalUnion(valid.map(t => {
+    const ys = t.points.map(p => p.y);
+    return [Math.min(...ys), Math.max(...ys)];
+  }), bounds.yMin, bounds.yMax) / yRange;
+  const cells = new Uint8Array(GRID_CELLS * GRID_CELLS);
+  const mark = (p: Point) => {
+    const i = Math.floor((p.x - bounds.tMin) / tRange * GRID_CELLS);
+    const j = Math.floor((p.y - bounds.yMin) / yRange * GRID_CELLS);
+    if (i >= 0 && i < GRID_CELLS && j >= 0 && j < GRID_CELLS) cells[j * GRID_CELLS + i] = 1;
+  };
+  valid.forEach(t => t.points.forEach((p, k) => {
+    if (k === 0) { mark(p); return; }
+    const a = t.points[k - 1];
+    // Half a cell per step so long resampled segments mark every cell they pass
+    const steps = Math.max(1, Math.ceil(2 * GRID_CELLS * Math.max(Math.abs(p.x - a.x) / tRange, Math.abs(p.y - a.y) / yRange)));
+    for (let s = 1; s <= steps; s++) mark({ x: a.x + (p.x - a.x) * s / steps, y: a.y + (p.y - a.y) * s / steps });
+  }));
+  const domainCoverage = cells.reduce((n, c) => n + c, 0) / cells.length;
+
+  // Per-trajectory checks
+  const atBorder = (p: Point) =>
+    p.x - bounds.tMin <= BORDER_SHARE * tRange || bounds.tMax - p.x <= BORDER_SHARE * tRange ||
+    p.y - bounds.yMin <= BORDER_SHARE * yRange || bounds.yMax - p.y <= BORDER_SHARE * yRange;
+  const speedSpan = SPEED_SPAN_SHARE * tRange;
+  let fragments = 0;
+
+  valid.forEach(t => {
+    const { points } = t;
+    const first = points[0], last = points[points.length - 1];
+    if (!atBorder(first) || !atBorder(last)) {
+      fragments++;
+      const end = !atBorder(first) ? first : last;
+      report({ kind: DiagnosticIssue.FRAGMENT, trajectoryIds: [t.id], at: end, detail: `#${t.id} ${end === first ? 'starts' : 'ends'} inside the domain` });
+    }
+
+    const backward = points.filter((p, i) => i > 0 && p.x < points[i - 1].x);
+    if (backward.length > 0) {
+      report({ kind: DiagnosticIssue.BACKWARD, trajectoryIds: [t.id], at: backward[0], detail: `#${t.id}: ${backward.length} backward steps` });
+    }
+
+    let worst = 0;
+    let worstAt: Point | null = null;
+    for (let i = 0, j = 0; i < points.length; i++) {
+      while (j < points.length - 1 && points[j].x - points[i].x < speedSpan) j++;
+      const dt = points[j].x - points[i].x;
+      if (dt < speedSpan) break;
+      const speed = Math.abs(points[j].y - points[i].y) / dt;
+      if (speed > worst) { worst = speed; worstAt = points[i]; }
+    }
+    if (worst > MAX_PLAUSIBLE_SPEED && worstAt) {
+      report({ kind: DiagnosticIssue.OVERSPEED, trajectoryIds: [t.id], at: worstAt, detail: `#${t.id} reaches ${(worst * 60 / 1000).toFixed(0)} km/h` });
+    }
+  });
+
+  // Crossings within a class, found as sign changes on a common time grid
+  const times = Array.from({ length: CROSSING_SAMPLES }, (_, i) => bounds.tMin + (i + 0.5) * tRange / CROSSING_SAMPLES);
+  const samples = valid.map(t => sampleAt(t.points, times));
+  const eps = 0.002 * yRange;
+  for (let a = 0; a < valid.length; a++) {
+    for (let b = a + 1; b < valid.length; b++) {
+      if (valid[a].classId !== valid[b].classId) continue;
+      let sign = 0;
+      for (let i = 0; i < times.length; i++) {
+        const d = samples[a][i] - samples[b][i];
+        if (isNaN(d) || Math.abs(d) < eps) continue;
+        const s = Math.sign(d);
+        if (sign !== 0 && s !== sign) {
+          report({
+            kind: DiagnosticIssue.CROSSING,
+            trajectoryIds: [valid[a].id, valid[b].id],
+            at: { x: times[i], y: samples[a][i] },
+            detail: `#${valid[a].id} crosses #${valid[b].id}`
+          });
+          break;
+        }
+        sign = s;
+      }
+    }
+  }
+
+  return {
+    trajectoryCount: valid.length,
+    durationHistogram,
+    medianDuration: median(durations),
+    timeCoverage,
+    spaceCoverage,
+    domainCoverage,
+    fragments,
+    issues: [
+      ...issues[DiagnosticIssue.CROSSING],
+      ...issues[DiagnosticIssue.OVERSPEED],
+      ...issues[DiagnosticIssue.BACKWARD],
+      ...issues[DiagnosticIssue.FRAGMENT]
+    ],
+    ...pixelStats
+  };
+};
@@ -0,0 +1,97 @@
+import { AxisCalibration, Extent, ExtractionMask, ExtractionOutput, ExtractionSettings } from '../types';
+import { ExtractionProgressCallback } from './imageProcessor';
+
+export type ExtractionRequest =
+  | { type: 'extract'; image: ImageData; extent: Extent; calibration: AxisCalibration | null; mask: ExtractionMask | null; settings: ExtractionSettings }
+  | { type: 'binarize'; image: ImageData; mask: ExtractionMask | null; settings: ExtractionSettings };
+
+export type ExtractionResponse =
+  | { type: 'progress'; percent: number; trajectoryCount: number }
+  | { type: 'extracted'; output: ExtractionOutput }
+  | { type: 'binarized'; image: ImageData }
+  | { type: 'error'; message: string };
+
+export interface WorkerJob<T> {
+  promise: Promise<T>;
+  cancel: () => void;
+}
+
+export class ExtractionCancelledError extends Error {
+  constructor() {
+    super('Extraction cancelled');
+    this.name = 'ExtractionCancelledError';
+  }
+}
+
+// Lanes extracted side by side; leave one core for the UI thread
+export const EXTRACTION_CONCURRENCY = Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1));
+
+// Each job gets its own worker so that cancelling is a plain terminate()
+const startJob = <T>(
+  request: ExtractionRequest,
+  pick: (msg: ExtractionResponse) => T | undefined,
+  onProgress?: ExtractionProgressCallback
+): WorkerJob<T> => {
+  const worker = new Worker(new URL('./extractionWorker.ts', import.meta.url), { type: 'module' });
+  let settle: { reject: (err: Error) => void } | null = null;
+
+  const promise = new Promise<T>((resolve, reject) => {
+    settle = { reject };
+    worker.onmessage = (e: MessageEvent<ExtractionResponse>) => {
+      const msg = e.data;
+      if (msg.type === 'progress') {
+        onProgress?.(msg.percent, msg.trajectoryCount);
+        return;
+      }
+      worker.terminate();
+      settle = null;
+      if (msg.type === 'error') {
+        reject(new Error(msg.message));
+        return;
+      }
+      const value = pick(msg);
+      if (value === undefined) reject(new Error(`Unexpected worker reply: ${msg.type}`));
+      else resolve(value);
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      settle = null;
+      reject(new Error(e.message || 'Extraction worker failed'));
+    };
+    // The pixels are handed over, not copied
+    worker.postMessage(request, [request.image.data.buffer]);
+  });
+
+  const cancel = () => {
+    if (!settle) return;
+    worker.terminate();
+    settle.reject(new ExtractionCancelledError());
+    settle = null;
+  };
+
+  return { promise, cancel };
+};
+
+/**
+ * Extracts trajectories from the given pixels in a worker.
+ * The ImageData buffer is transferred and unusable afterwards.
+ */
+export const startExtractionJob = (
+  image: ImageData,
+  extent: Extent,
+  calibration: AxisCalibration | null,
+  mask: ExtractionMask | null,
+  settings: ExtractionSettings,
+  onProgress?: ExtractionProgressCallback
+): WorkerJob<ExtractionOutput> =>
+  startJob({ type: 'extract', image, extent, calibration, mask, settings }, msg => msg.type === 'extracted' ? msg.output : undefined, onProgress);
+
+/**
+ * Computes the binary view of the given pixels in a worker (masked-out areas greyed).
+ */
+export const startBinarizationJob = (
+  image: ImageData,
+  mask: ExtractionMask | null,
+  settings: ExtractionSettings
+): WorkerJob<ImageData> =>
+  startJob({ type: 'binarize', image, mask, settings }, msg => msg.type === 'binarized' ? msg.image : undefined);
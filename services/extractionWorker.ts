@@ -0,0 +1,34 @@
+import { binarizePixels, extractTrajectories } from './imageProcessor';
+import { postProcessTrajectories } from './postProcessor';
+import { diagnoseTrajectories } from './diagnostics';
+import { createPixelTransform, getWorldBounds } from '../utils/calibration';
+import { ExtractionRequest, ExtractionResponse } from './extractionClient';
+
+/**
+ * Runs extraction and binarization off the main thread.
+ * One job per worker: the client terminates the worker to cancel.
+ */
+const post = (msg: ExtractionResponse, transfer: Transferable[] = []) => {
+  self.postMessage(msg, { transfer });
+};
+
+self.onmessage = (e: MessageEvent<ExtractionRequest>) => {
+  const req = e.data;
+  try {
+    if (req.type === 'extract') {
+      const output = extractTrajectories(req.image, req.extent, req.calibration, req.mask, req.settings, (percent, trajectoryCount) => {
+        post({ type: 'progress', percent, trajectoryCount });
+      });
+      const processed = postProcessTrajectories(output.trajectories, req.settings.postProcessing);
+      const { width, height } = req.image;
+      const bounds = getWorldBounds(width, height, createPixelTransform(width, height, req.extent, req.calibration));
+      const diagnostics = diagnoseTrajectories(processed.trajectories, bounds, output.pixelStats);
+      post({ type: 'extracted', output: { ...output, trajectories: processed.trajectories, postProcessing: processed.report, diagnostics } });
+    } else {
+      const image = binarizePixels(req.image, req.settings, req.mask);
+      post({ type: 'binarized', image }, [image.data.buffer]);
+    }
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
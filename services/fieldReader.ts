@@ -0,0 +1,104 @@
+import { AxisCalibration, AxisReference, Extent, LaneMetadata, Point, TravelDirection } from '../types';
+
+export interface FieldIssue {
+  location: string; // "line 3" or a field path such as "lanes[1].extent.spatial"
+  message: string;
+}
+
+export type RawObject = Record<string, unknown>;
+
+export const CLOCK_TIME = /^([01]?\d|2[0-3]):([0-5]\d)(?::([0-5]\d))?$/;
+
+export const isObject = (value: unknown): value is RawObject => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Field readers record an issue and return undefined on invalid input
+export class FieldReader {
+  issues: FieldIssue[] = [];
+
+  fail(location: string, message: string) {
+    this.issues.push({ location, message });
+    return undefined;
+  }
+
+  positive(value: unknown, location: string): number | undefined {
+    if (typeof value !== 'number' || !isFinite(value) || value <= 0) return this.fail(location, `expected a positive number, got ${JSON.stringify(value)}`);
+    return value;
+  }
+
+  finite(value: unknown, location: string): number | undefined {
+    if (typeof value !== 'number' || !isFinite(value)) return this.fail(location, `expected a number, got ${JSON.stringify(value)}`);
+    return value;
+  }
+
+  text(value: unknown, location: string): string | undefined {
+    if (typeof value !== 'string' || value.trim() === '') return this.fail(location, 'expected a non-empty string');
+    return value.trim();
+  }
+
+  extent(value: unknown, location: string): Extent | undefined {
+    if (!isObject(value)) return this.fail(location, 'expected { "spatial": m, "temporal": min }');
+    const spatial = this.positive(value.spatial, `${location}.spatial`);
+    const temporal = this.positive(value.temporal, `${location}.temporal`);
+    return spatial !== undefined && temporal !== undefined ? { spatial, temporal } : undefined;
+  }
+
+  clockTime(value: unknown, location: string): string | undefined {
+    if (typeof value !== 'string' || !CLOCK_TIME.test(value.trim())) return this.fail(location, `expected "HH:MM" or "HH:MM:SS", got ${JSON.stringify(value)}`);
+    return value.trim();
+  }
+
+  member<T extends string>(values: Record<string, T>, value: unknown, location: string): T | undefined {
+    if (!Object.values(values).includes(value as T)) return this.fail(location, `expected one of ${Object.values(values).join(', ')}, got ${JSON.stringify(value)}`);
+    return value as T;
+  }
+
+  point(value: unknown, location: string): Point | undefined {
+    if (!isObject(value)) return this.fail(location, 'expected { "x", "y" }');
+    const x = this.finite(value.x, `${location}.x`);
+    const y = this.finite(value.y, `${location}.y`);
+    return x !== undefined && y !== undefined ? { x, y } : undefined;
+  }
+
+  points(value: unknown, location: string): Point[] | undefined {
+    if (!Array.isArray(value)) return this.fail(location, 'expected a list of { "x", "y" } points');
+    const points = value.map((p, i) => this.point(p, `${location}[${i}]`));
+    return points.every(p => p !== undefined) ? points as Point[] : undefined;
+  }
+
+  direction(value: unknown, location: string): TravelDirection | undefined {
+    const key = typeof value === 'string' ? value.trim().toUpperCase() : '';
+    if (key === TravelDirection.INCREASING || key === TravelDirection.DECREASING) return key as TravelDirection;
+    return this.fail(location, `expected "increasing" or "decreasing", got ${JSON.stringify(value)}`);
+  }
+
+  references(value: unknown, location: string): AxisReference[] {
+    if (value === undefined) return [];
+    if (!Array.isArray(value)) {
+      this.fail(location, 'expected a list of { "pixel", "value" } points');
+      return [];
+    }
+    const refs: AxisReference[] = [];
+    value.forEach((ref, i) => {
+      if (!isObject(ref)) { this.fail(`${location}[${i}]`, 'expected { "pixel", "value" }'); return; }
+      const pixel = this.finite(ref.pixel, `${location}[${i}].pixel`);
+      const val = this.finite(ref.value, `${location}[${i}].value`);
+      if (pixel !== undefined && val !== undefined) refs.push({ pixel, value: val });
+    });
+    return refs;
+  }
+
+  // Optional per-lane settings, shared by manifest lanes and saved project lanes
+  laneMetadata(value: RawObject, location: string): LaneMetadata {
+    const meta: LaneMetadata = {};
+    if (value.label !== undefined) meta.label = this.text(value.label, `${location}.label`);
+    if (value.extent !== undefined) meta.extent = this.extent(value.extent, `${location}.extent`);
+    if (value.direction !== undefined) meta.direction = this.direction(value.direction, `${location}.direction`);
+    if (value.startTime !== undefined) meta.startTime = this.clockTime(value.startTime, `${location}.startTime`);
+    return meta;
+  }
+
+  calibration(value: unknown, location: string): AxisCalibration | undefined {
+    if (!isObject(value)) return this.fail(location, 'expected { "time": [...], "space": [...] }');
+    return { time: this.references(value.time, `${location}.time`), space: this.references(value.space, `${location}.space`) };
+  }
+}
@@ -0,0 +1,124 @@
+import { HeatmapScale, HeatmapSettings, HeatmapVariable, Trajectory } from '../types';
+import { WorldBounds } from '../utils/calibration';
+import { hexToRgb } from './imageProcessor';
+
+export const DEFAULT_HEATMAP_SETTINGS: HeatmapSettings = {
+  enabled: false,
+  variable: HeatmapVariable.SPEED,
+  scale: HeatmapScale.TRAFFIC,
+  opacity: 0.6,
+  timeStep: 0.5,
+  spaceStep: 20,
+};
+
+export const MAX_HEATMAP_CELLS = 40000;
+
+// Colour stops from low to high values
+export const HEATMAP_SCALES: Record<HeatmapScale, string[]> = {
+  [HeatmapScale.TRAFFIC]: ['#b91c1c', '#f97316', '#facc15', '#84cc16', '#15803d'],
+  [HeatmapScale.TURBO]: ['#30123b', '#4686fb', '#1ae4b6', '#a2fc3c', '#fabb39', '#e4460a', '#7a0403'],
+  [HeatmapScale.VIRIDIS]: ['#440154', '#3b528b', '#21918c', '#5ec962', '#fde725'],
+  [HeatmapScale.GREYS]: ['#f8fafc', '#94a3b8', '#0f172a'],
+};
+
+/**
+ * Edie measures on a regular grid: per cell, total distance travelled and
+ * total time spent over the cell area. Speed is NaN in cells nobody entered.
+ */
+export interface TrafficStateField {
+  tMin: number;
+  yMin: number;
+  timeStep: number;
+  spaceStep: number;
+  columns: number;
+  rows: number;
+  flow: Float64Array;    // veh/min, row-major from (tMin, yMin)
+  density: Float64Array; // veh/m
+  speed: Float64Array;   // m/min
+}
+
+// Parameter range [u0, u1] of the segment inside the rectangle (Liang–Barsky)
+const clipSegment = (dx: number, dy: number, ax: number, ay: number, x0: number, x1: number, y0: number, y1: number): [number, number] | null => {
+  let u0 = 0, u1 = 1;
+  const edges: [number, number][] = [[-dx, ax - x0], [dx, x1 - ax], [-dy, ay - y0], [dy, y1 - ay]];
+  for (const [p, q] of edges) {
+    if (p === 0) {
+      if (q < 0) return null;
+    } else {
+      const r = q / p;
+      if (p < 0) u0 = Math.max(u0, r); else u1 = Math.min(u1, r);
+      if (u0 > u1) return null;
+    }
+  }
+  return u1 > u0 ? [u0, u1] : null;
+};
+
+/**
+ * Splits every trajectory segment exactly over the cells it crosses.
+ * Returns null for an empty range or more than MAX_HEATMAP_CELLS cells.
+ */
+export const computeTrafficStateField = (
+  trajectories: Trajectory[],
+  bounds: WorldBounds,
+  timeStep: number,
+  spaceStep: number
+): TrafficStateField | null => {
+  const columns = Math.ceil((bounds.tMax - bounds.tMin) / timeStep - 1e-9);
+  const rows = Math.ceil((bounds.yMax - bounds.yMin) / spaceStep - 1e-9);
+  if (!(columns > 0 && rows > 0) || columns * rows > MAX_HEATMAP_CELLS) return null;
+
+  const ttd = new Float64Array(columns * rows);
+  const ttt = new Float64Array(columns * rows);
+  const column = (t: number) => Math.min(columns - 1, Math.max(0, Math.floor((t - bounds.tMin) / timeStep)));
+  const row = (y: number) => Math.min(rows - 1, Math.max(0, Math.floor((y - bounds.yMin) / spaceStep)));
+
+  trajectories.forEach(t => {
+    for (let i = 0; i < t.points.length - 1; i++) {
+      const a = t.points[i], b = t.points[i+1];
+      const dx = b.x - a.x, dy = b.y - a.y;
+      const c0 = column(Math.min(a.x, b.x)), c1 = column(Math.max(a.x, b.x));
+      const r0 = row(Math.min(a.y, b.y)), r1 = row(Math.max(a.y, b.y));
+      for (let c = c0; c <= c1; c++) {
+        const x0 = bounds.tMin + c * timeStep;
+        for (let r = r0; r <= r1; r++) {
+          const y0 = bounds.yMin + r * spaceStep;
+          const u = clipSegment(dx, dy, a.x, a.y, x0, Math.min(x0 + timeStep, bounds.tMax), y0, Math.min(y0 + spaceStep, bounds.yMax));
+          if (!u) continue;
+          ttd[r * columns + c] += Math.abs(dy) * (u[1] - u[0]);
+          ttt[r * columns + c] += Math.abs(dx) * (u[1] - u[0]);
+        }
+      }
+    }
+  });
+
+  const flow = new Float64Array(columns * rows);
+  const density = new Float64Array(columns * rows);
+  const speed = new Float64Array(columns * rows);
+  for (let r = 0; r < rows; r++) {
+    const height = Math.min(spaceStep, bounds.yMax - bounds.yMin - r * spaceStep);
+    for (let c = 0; c < columns; c++) {
+      const area = Math.min(timeStep, bounds.tMax - bounds.tMin - c * timeStep) * height;
+      const i = r * columns + c;
+      flow[i] = ttd[i] / area;
+      density[i] = ttt[i] / area;
+      speed[i] = ttt[i] > 0 ? ttd[i] / ttt[i] : NaN;
+    }
+  }
+  return { tMin: bounds.tMin, yMin: bounds.yMin, timeStep, spaceStep, columns, rows, flow, density, speed };
+};
+
+export const getFieldValues = (field: TrafficStateField, variable: HeatmapVariable): Float64Array =>
+  variable === HeatmapVariable.SPEED ? field.speed : variable === HeatmapVariable.DENSITY ? field.density : field.flow;
+
+// Colour at position t (0-1) of the scale, interpolated between its stops
+export const sampleScale = (scale: HeatmapScale, t: number): string => {
+  const stops = HEATMAP_SCALES[scale];
+  const pos = Math.min(1, Math.max(0, t)) * (stops.length - 1);
+  const i = Math.min(stops.length - 2, Math.floor(pos));
+  const a = hexToRgb(stops[i]), b = hexToRgb(stops[i + 1]);
+  const [r, g, bl] = a.map((v, k) => Math.round(v + (b[k] - v) * (pos - i)));
+  return `rgb(${r}, ${g}, ${bl})`;
+};
+
+export const scaleGradientCSS = (scale: HeatmapScale): string =>
+  `linear-gradient(to right, ${HEATMAP_SCALES[scale].join(', ')})`;
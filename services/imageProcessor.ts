@@ -1,166 +1,904 @@
 
-import { Trajectory, Extent, Point } from '../types';
+import { 
+  Trajectory, 
+  Extent, 
+  Point, 
+  AxisCalibration,
+  BackgroundModel, 
+  BinarizationMethod, 
+  BinarizationSettings, 
+  CentrelineSettings,
+  ColorClass,
+  ColorClassMode,
+  ExtractionMask,
+  ExtractionOutput,
+  ExtractionSettings,
+  PixelBuffer,
+  TracingSettings
+} from '../types';
+import { createPixelTransform } from '../utils/calibration';
+import { DEFAULT_POST_PROCESSING_SETTINGS } from './postProcessor';
+
+// Reports overall progress (0-100) and the number of trajectories found so far
+export type ExtractionProgressCallback = (percent: number, trajectoryCount: number) => void;
+
+export const DEFAULT_BINARIZATION_SETTINGS: BinarizationSettings = {
+  method: BinarizationMethod.FIXED,
+  background: BackgroundModel.WHITE,
+  threshold: 30,
+  windowSize: 31,
+  adaptiveOffset: 20
+};
+
+export const DEFAULT_TRACING_SETTINGS: TracingSettings = {
+  maxGap: 6,
+  tolerance: 3,
+  headingWindow: 12
+};
+
+// Thinning is opt-in: the run tracer already centres thick strokes, and a
+// skeleton blurs the crossings it relies on
+export const DEFAULT_CENTRELINE_SETTINGS: CentrelineSettings = {
+  thinning: false,
+  subPixel: true,
+  radius: 3
+};
+
+export const DEFAULT_EXTRACTION_SETTINGS: ExtractionSettings = {
+  binarization: DEFAULT_BINARIZATION_SETTINGS,
+  tracing: DEFAULT_TRACING_SETTINGS,
+  centreline: DEFAULT_CENTRELINE_SETTINGS,
+  colorMode: ColorClassMode.NONE,
+  colorClasses: [],
+  paletteSize: 3,
+  colorTolerance: 120,
+  postProcessing: DEFAULT_POST_PROCESSING_SETTINGS
+};
+
+// Largest possible Manhattan distance between two RGB colours
+const MAX_RGB_DISTANCE = 765;
+
+/**
+ * Estimates the background colour.
+ * WHITE and DARK are fixed references; AUTO takes the most frequent colour
+ * (quantized to 4 bits per channel) and averages the pixels in that bin.
+ */
+const detectBackground = (data: Uint8ClampedArray, model: BackgroundModel): [number, number, number] => {
+  if (model === BackgroundModel.WHITE) return [255, 255, 255];
+  if (model === BackgroundModel.DARK) return [0, 0, 0];
+
+  const bins = new Uint32Array(4096);
+  const len = data.length;
+  for (let i = 0; i < len; i += 4) {
+    bins[((data[i] >> 4) << 8) | ((data[i+1] >> 4) << 4) | (data[i+2] >> 4)]++;
+  }
+
+  let best = 0;
+  for (let b = 1; b < bins.length; b++) {
+    if (bins[b] > bins[best]) best = b;
+  }
+
+  let sumR = 0, sumG = 0, sumB = 0, n = 0;
+  for (let i = 0; i < len; i += 4) {
+    if ((((data[i] >> 4) << 8) | ((data[i+1] >> 4) << 4) | (data[i+2] >> 4)) === best) {
+      sumR += data[i]; sumG += data[i+1]; sumB += data[i+2]; n++;
+    }
+  }
+  if (n === 0) return [255, 255, 255];
+  return [sumR / n, sumG / n, sumB / n];
+};
+
+/**
+ * Otsu's method on the distance histogram: picks the threshold that
+ * maximizes the between-class variance of background vs foreground.
+ */
+const otsuThreshold = (distance: Uint16Array): number => {
+  const hist = new Uint32Array(MAX_RGB_DISTANCE + 1);
+  for (let i = 0; i < distance.length; i++) hist[distance[i]]++;
+
+  const total = distance.length;
+  let sumAll = 0;
+  for (let d = 0; d <= MAX_RGB_DISTANCE; d++) sumAll += d * hist[d];
+
+  let sumBg = 0, weightBg = 0, bestVar = -1, best = 0;
+  for (let d = 0; d <= MAX_RGB_DISTANCE; d++) {
+    weightBg += hist[d];
+    if (weightBg === 0) continue;
+    const weightFg = total - weightBg;
+    if (weightFg === 0) break;
+    sumBg += d * hist[d];
+    const meanBg = sumBg / weightBg;
+    const meanFg = (sumAll - sumBg) / weightFg;
+    const between = weightBg * weightFg * (meanBg - meanFg) ** 2;
+    if (between > bestVar) {
+      bestVar = between;
+      best = d;
+    }
+  }
+  return best;
+};
+
+/**
+ * Scores every pixel by its Manhattan distance to the background colour.
+ * This is the "ink strength" used both for thresholding and as the
+ * intensity weight of the sub-pixel centreline refinement.
+ */
+const computeBackgroundDistance = (
+  data: Uint8ClampedArray, 
+  width: number, 
+  height: number, 
+  background: BackgroundModel
+): Uint16Array => {
+  const [bgR, bgG, bgB] = detectBackground(data, background);
+  const size = width * height;
+  const distance = new Uint16Array(size);
+  for (let p = 0; p < size; p++) {
+    const i = p * 4;
+    distance[p] = Math.round(Math.abs(data[i] - bgR) + Math.abs(data[i+1] - bgG) + Math.abs(data[i+2] - bgB));
+  }
+  return distance;
+};
+
+/**
+ * Classifies the distance map according to the selected method.
+ */
+const classifyForeground = (
+  distance: Uint16Array, 
+  width: number, 
+  height: number, 
+  settings: BinarizationSettings
+): Uint8Array => {
+  const size = width * height;
+  const mask = new Uint8Array(size);
+
+  if (settings.method === BinarizationMethod.ADAPTIVE) {
+    // Integral image of the distance map for O(1) window means
+    const stride = width + 1;
+    const integral = new Float64Array(stride * (height + 1));
+    for (let y = 0; y < height; y++) {
+      let rowSum = 0;
+      for (let x = 0; x < width; x++) {
+        rowSum += distance[y * width + x];
+        integral[(y + 1) * stride + x + 1] = integral[y * stride + x + 1] + rowSum;
+      }
+    }
+
+    const half = Math.max(1, Math.floor(settings.windowSize / 2));
+    for (let y = 0; y < height; y++) {
+      const y0 = Math.max(0, y - half), y1 = Math.min(height, y + half + 1);
+      for (let x = 0; x < width; x++) {
+        const x0 = Math.max(0, x - half), x1 = Math.min(width, x + half + 1);
+        const sum = integral[y1 * stride + x1] - integral[y0 * stride + x1] - integral[y1 * stride + x0] + integral[y0 * stride + x0];
+        const mean = sum / ((x1 - x0) * (y1 - y0));
+        const d = distance[y * width + x];
+        // The offset also acts as an absolute floor so flat regions stay background
+        if (d > mean + settings.adaptiveOffset) mask[y * width + x] = 1;
+      }
+    }
+    return mask;
+  }
+
+  const threshold = settings.method === BinarizationMethod.OTSU ? otsuThreshold(distance) : settings.threshold;
+  for (let p = 0; p < size; p++) {
+    if (distance[p] > threshold) mask[p] = 1;
+  }
+  return mask;
+};
+
+/**
+ * Builds the foreground mask (1 = trajectory ink, 0 = background).
+ * 
+ * Every pixel is scored by its Manhattan distance to the background colour,
+ * then classified according to the selected method.
+ */
+export const computeForegroundMask = (
+  data: Uint8ClampedArray, 
+  width: number, 
+  height: number, 
+  settings: BinarizationSettings = DEFAULT_BINARIZATION_SETTINGS
+): Uint8Array => {
+  const distance = computeBackgroundDistance(data, width, height, settings.background);
+  return classifyForeground(distance, width, height, settings);
+};
 
 /**
  * Shared Binarization Logic
  * Modifies the data array in-place.
  * 
- * STRATEGY: 
- * Assume Background is WHITE (255, 255, 255).
- * Any pixel that is NOT white (with small tolerance) becomes BLACK.
- */
-const binarizeData = (data: Uint8ClampedArray, width: number, height: number) => {
-  // Hardcoded White Background Reference
-  const bgR = 255;
-  const bgG = 255;
-  const bgB = 255;
-
-  // Threshold to account for JPEG compression artifacts on "white" background
-  // 30 covers slightly noisy whites while preserving colored lines.
-  const threshold = 30; 
-  const len = data.length;
+ * Foreground (trajectory ink) is always rendered BLACK on a WHITE background,
+ * whatever the background model, so the extractor and the BINARY view agree.
+ */
+const binarizeData = (
+  data: Uint8ClampedArray, 
+  width: number, 
+  height: number, 
+  settings: BinarizationSettings
+): Uint8Array => {
+  const mask = computeForegroundMask(data, width, height, settings);
+  const size = width * height;
 
-  for (let i = 0; i < len; i += 4) {
-    const r = data[i];
-    const g = data[i+1];
-    const b = data[i+2];
+  for (let p = 0; p < size; p++) {
+    const i = p * 4;
+    const v = mask[p] ? 0 : 255;
+    data[i] = v;
+    data[i+1] = v;
+    data[i+2] = v;
+    data[i+3] = 255; // Fully Opaque
+  }
+  return mask;
+};
+
+// Scanline fill of a polygon (pixel coordinates) into a byte mask, sampled at pixel centres
+const fillPolygon = (target: Uint8Array, width: number, height: number, polygon: Point[], value: number) => {
+  if (polygon.length < 3) return;
+  const crossings: number[] = [];
+  for (let y = 0; y < height; y++) {
+    const cy = y + 0.5;
+    crossings.length = 0;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      const a = polygon[i], b = polygon[j];
+      if ((a.y > cy) !== (b.y > cy)) crossings.push(a.x + (cy - a.y) / (b.y - a.y) * (b.x - a.x));
+    }
+    crossings.sort((u, v) => u - v);
+    for (let k = 0; k + 1 < crossings.length; k += 2) {
+      const x0 = Math.max(0, Math.ceil(crossings[k] - 0.5));
+      const x1 = Math.min(width - 1, Math.floor(crossings[k + 1] - 0.5));
+      for (let x = x0; x <= x1; x++) target[y * width + x] = value;
+    }
+  }
+};
+
+export const EMPTY_EXTRACTION_MASK: ExtractionMask = { roi: null, exclusions: [] };
 
-    // Calculate distance from Pure White
-    const diff = Math.abs(r - bgR) + Math.abs(g - bgG) + Math.abs(b - bgB);
+/**
+ * Rasterizes the lane's extraction mask: 1 where ink may be traced.
+ * Returns null when nothing is masked.
+ */
+export const rasterizeExtractionMask = (
+  width: number,
+  height: number,
+  mask: ExtractionMask | null
+): Uint8Array | null => {
+  if (!mask || (!mask.roi && mask.exclusions.length === 0)) return null;
+  const allowed = new Uint8Array(width * height);
+  if (mask.roi && mask.roi.length >= 3) fillPolygon(allowed, width, height, mask.roi, 1);
+  else allowed.fill(1);
+  mask.exclusions.forEach(polygon => fillPolygon(allowed, width, height, polygon, 0));
+  return allowed;
+};
 
-    if (diff > threshold) {
-      // It is NOT white -> It is a Trajectory -> Force Black
-      data[i] = 0;
-      data[i+1] = 0;
-      data[i+2] = 0;
-      data[i+3] = 255; // Fully Opaque
-    } else {
-      // It is effectively white -> Force Background
-      data[i] = 255;
-      data[i+1] = 255;
-      data[i+2] = 255;
-      data[i+3] = 255;
+/**
+ * Binarizes a pixel buffer in-place (BINARY view, worker and CLI).
+ * Masked-out areas are greyed so they stand apart from the traced ink.
+ */
+export const binarizePixels = <T extends PixelBuffer>(
+  image: T,
+  settings: ExtractionSettings = DEFAULT_EXTRACTION_SETTINGS,
+  mask: ExtractionMask | null = null
+): T => {
+  const { data, width, height } = image;
+  binarizeData(data, width, height, settings.binarization);
+
+  const allowed = rasterizeExtractionMask(width, height, mask);
+  if (allowed) {
+    for (let p = 0; p < allowed.length; p++) {
+      if (allowed[p]) continue;
+      const i = p * 4;
+      const v = data[i] === 0 ? 120 : 210;
+      data[i] = v;
+      data[i+1] = v;
+      data[i+2] = v;
     }
   }
+  return image;
 };
 
 /**
- * Generates a visual representation of the binarized image for debugging.
+ * Parses a '#rrggbb' swatch into RGB components.
  */
-export const getBinarizedImageData = (
-  canvas: HTMLCanvasElement
-): ImageData | null => {
-  const ctx = canvas.getContext('2d', { willReadFrequently: true });
-  if (!ctx) return null;
+export const hexToRgb = (hex: string): [number, number, number] => {
+  const v = parseInt(hex.replace('#', ''), 16);
+  return [(v >> 16) & 255, (v >> 8) & 255, v & 255];
+};
 
-  const { width, height } = canvas;
-  const imageData = ctx.getImageData(0, 0, width, height);
-  
-  // Apply the shared logic
-  binarizeData(imageData.data, width, height);
-  
-  return imageData;
+const rgbToHex = (r: number, g: number, b: number) =>
+  '#' + [r, g, b].map(c => Math.round(c).toString(16).padStart(2, '0')).join('');
+
+// Upper bound on the pixels fed to k-means; larger images are sampled with a stride
+const PALETTE_SAMPLE_LIMIT = 20000;
+
+/**
+ * Automatic palette detection on the foreground pixels.
+ * 
+ * K-means in RGB space, seeded deterministically (most frequent colour,
+ * then farthest-point) so repeated runs on the same image agree.
+ */
+const detectPaletteFromMask = (
+  data: Uint8ClampedArray, 
+  mask: Uint8Array, 
+  paletteSize: number
+): ColorClass[] => {
+  const fgCount = mask.reduce((n, v) => n + v, 0);
+  if (fgCount === 0 || paletteSize < 1) return [];
+
+  const stride = Math.max(1, Math.floor(fgCount / PALETTE_SAMPLE_LIMIT));
+  const samples: number[][] = [];
+  let seen = 0;
+  for (let p = 0; p < mask.length; p++) {
+    if (!mask[p]) continue;
+    if (seen++ % stride === 0) samples.push([data[p*4], data[p*4+1], data[p*4+2]]);
+  }
+
+  const dist2 = (a: number[], b: number[]) => (a[0]-b[0]) ** 2 + (a[1]-b[1]) ** 2 + (a[2]-b[2]) ** 2;
+
+  // Seed 1: most frequent quantized colour
+  const bins = new Map<number, number>();
+  samples.forEach(c => {
+    const key = ((c[0] >> 4) << 8) | ((c[1] >> 4) << 4) | (c[2] >> 4);
+    bins.set(key, (bins.get(key) || 0) + 1);
+  });
+  let bestKey = 0, bestCount = -1;
+  bins.forEach((count, key) => { if (count > bestCount) { bestCount = count; bestKey = key; } });
+  const centroids: number[][] = [[((bestKey >> 8) << 4) + 8, (((bestKey >> 4) & 15) << 4) + 8, ((bestKey & 15) << 4) + 8]];
+
+  // Remaining seeds: farthest-point
+  while (centroids.length < paletteSize) {
+    let far = -1, farIdx = -1;
+    samples.forEach((c, i) => {
+      const d = Math.min(...centroids.map(ct => dist2(c, ct)));
+      if (d > far) { far = d; farIdx = i; }
+    });
+    if (farIdx === -1 || far === 0) break;
+    centroids.push([...samples[farIdx]]);
+  }
+
+  const assignment = new Int32Array(samples.length);
+  for (let iter = 0; iter < 10; iter++) {
+    const sums = centroids.map(() => [0, 0, 0, 0]);
+    samples.forEach((c, i) => {
+      let best = 0, bestD = Infinity;
+      centroids.forEach((ct, k) => {
+        const d = dist2(c, ct);
+        if (d < bestD) { bestD = d; best = k; }
+      });
+      assignment[i] = best;
+      sums[best][0] += c[0]; sums[best][1] += c[1]; sums[best][2] += c[2]; sums[best][3]++;
+    });
+    centroids.forEach((ct, k) => {
+      if (sums[k][3] > 0) {
+        ct[0] = sums[k][0] / sums[k][3];
+        ct[1] = sums[k][1] / sums[k][3];
+        ct[2] = sums[k][2] / sums[k][3];
+      }
+    });
+  }
+
+  const populations = centroids.map((_, k) => assignment.reduce((n, a) => n + (a === k ? 1 : 0), 0));
+  return centroids
+    .map((ct, k) => ({ ct, population: populations[k] }))
+    .filter(c => c.population > 0)
+    .sort((a, b) => b.population - a.population)
+    .map((c, i) => ({ id: i + 1, label: `Class ${i + 1}`, color: rgbToHex(c.ct[0], c.ct[1], c.ct[2]) }));
 };
 
 /**
- * Enhanced trajectory extraction using strict binarization.
+ * Detects the dominant trajectory colours of an image (for the palette picker).
  */
-export const extractTrajectoriesFromCanvas = (
-  canvas: HTMLCanvasElement,
-  extent: Extent
-): Trajectory[] => {
-  const ctx = canvas.getContext('2d', { willReadFrequently: true });
-  if (!ctx) return [];
+export const detectColorPalette = (
+  image: PixelBuffer,
+  settings: ExtractionSettings = DEFAULT_EXTRACTION_SETTINGS
+): ColorClass[] => {
+  const mask = computeForegroundMask(image.data, image.width, image.height, settings.binarization);
+  return detectPaletteFromMask(image.data, mask, settings.paletteSize);
+};
 
-  const { width, height } = canvas;
-  const imageData = ctx.getImageData(0, 0, width, height);
-  const data = imageData.data;
-  
-  // 1. Apply Strict Binarization in-place
-  binarizeData(data, width, height);
+/**
+ * Returns the colour classes an extraction run should trace.
+ * An empty list means single-class (colour-blind) extraction.
+ */
+const resolveColorClasses = (
+  data: Uint8ClampedArray, 
+  mask: Uint8Array, 
+  settings: ExtractionSettings
+): ColorClass[] => {
+  if (settings.colorMode === ColorClassMode.MANUAL) return settings.colorClasses;
+  if (settings.colorMode === ColorClassMode.AUTO) return detectPaletteFromMask(data, mask, settings.paletteSize);
+  return [];
+};
 
-  // 2. Extraction Scan
-  const trajectories: Trajectory[] = [];
-  const columnStep = 1; 
-  const visited = new Uint8Array(width * height);
-  let idCounter = 1;
+/**
+ * Splits the foreground mask into one mask per colour class.
+ * Each foreground pixel goes to its nearest class colour, or to no class
+ * when it is farther than the tolerance from all of them.
+ */
+const splitMaskByColor = (
+  data: Uint8ClampedArray, 
+  mask: Uint8Array, 
+  classes: ColorClass[], 
+  tolerance: number
+): Uint8Array[] => {
+  const refs = classes.map(c => hexToRgb(c.color));
+  const classMasks = classes.map(() => new Uint8Array(mask.length));
+  const tol2 = tolerance * tolerance;
 
-  // Helper to check if pixel is Black (Foreground)
-  const isForeground = (x: number, y: number) => {
-    if (x < 0 || x >= width || y < 0 || y >= height) return false;
-    const idx = (y * width + x) * 4;
-    return data[idx] === 0; 
-  };
+  for (let p = 0; p < mask.length; p++) {
+    if (!mask[p]) continue;
+    const r = data[p*4], g = data[p*4+1], b = data[p*4+2];
+    let best = -1, bestD = Infinity;
+    for (let k = 0; k < refs.length; k++) {
+      const d = (r - refs[k][0]) ** 2 + (g - refs[k][1]) ** 2 + (b - refs[k][2]) ** 2;
+      if (d < bestD) { bestD = d; best = k; }
+    }
+    if (best !== -1 && bestD <= tol2) classMasks[best][p] = 1;
+  }
+  return classMasks;
+};
 
-  const toWorld = (px: number, py: number): Point => ({
-    x: (px / width) * extent.temporal,
-    y: ((height - py) / height) * extent.spatial
+/**
+ * A vertical run of consecutive foreground pixels in one image column.
+ * Thick or steep strokes occupy a single run per column; where two
+ * trajectories cross, their runs merge into one longer run.
+ */
+interface ColumnRun {
+  y0: number;
+  y1: number;
+  owner: number; // Index of the trace that first used the run (-1 = free, can seed)
+}
+
+const buildColumnRuns = (mask: Uint8Array, width: number, height: number): ColumnRun[][] => {
+  const columns: ColumnRun[][] = [];
+  for (let x = 0; x < width; x++) {
+    const runs: ColumnRun[] = [];
+    let start = -1;
+    for (let y = 0; y <= height; y++) {
+      const fg = y < height && mask[y * width + x] === 1;
+      if (fg && start === -1) start = y;
+      if (!fg && start !== -1) {
+        runs.push({ y0: start, y1: y - 1, owner: -1 });
+        start = -1;
+      }
+    }
+    columns.push(runs);
+  }
+  return columns;
+};
+
+/**
+ * Least-squares slope (px per column) over the last `window` points.
+ */
+const estimateSlope = (points: Point[], window: number): number => {
+  const recent = points.slice(-Math.max(2, window));
+  if (recent.length < 2) return 0;
+  const n = recent.length;
+  const mx = recent.reduce((a, p) => a + p.x, 0) / n;
+  const my = recent.reduce((a, p) => a + p.y, 0) / n;
+  let cov = 0, varX = 0;
+  recent.forEach(p => {
+    cov += (p.x - mx) * (p.y - my);
+    varX += (p.x - mx) ** 2;
   });
+  return varX > 0 ? cov / varX : 0;
+};
+
+// Extra run length (px) beyond a trace's own stroke before a run counts as a crossing
+const MERGE_MARGIN_PX = 0.5;
+// Cost (px of deviation) of every column skipped to reach a candidate
+const GAP_PENALTY_PX = 0.25;
+// Share of a trace lying on runs of earlier traces above which it is a duplicate
+const MAX_SHARED_FRACTION = 0.5;
+// Upper bound on the learned stroke thickness (seeds on steep strokes start long)
+const MAX_STROKE_PX = 6;
+
+/**
+ * Heading-aware tracer over a single foreground mask.
+ * 
+ * Each trace walks forward in time (column by column), keeping a slope
+ * estimate from its recent points. The next position is predicted from that
+ * heading and the closest run within tolerance is taken, so at crossings a
+ * trace keeps its direction instead of jumping onto the other vehicle.
+ * When nothing matches, the prediction is carried up to `maxGap` columns
+ * (gaps, dashed renders, short occlusions) before the trace ends.
+ * 
+ * Returns pixel-space polylines; conversion to world units is done by the caller.
+ */
+const traceMask = (
+  mask: Uint8Array, 
+  width: number, 
+  height: number, 
+  tracing: TracingSettings,
+  onColumn?: (x: number, pathCount: number) => void
+): Point[][] => {
+  const paths: Point[][] = [];
+  const columns = buildColumnRuns(mask, width, height);
+  let traceIdx = 0;
+
+  for (let x = 0; x < width; x++) {
+    onColumn?.(x, paths.length);
+    for (const seed of columns[x]) {
+      if (seed.owner !== -1) continue;
+      const owner = traceIdx++;
+      seed.owner = owner;
+      // Points landing on runs already owned by an earlier trace
+      let shared = 0;
+
+      const points: Point[] = [{ x, y: (seed.y0 + seed.y1) / 2 }];
+      // Points off any crossing; the heading is estimated from these only
+      const anchors: Point[] = [points[0]];
+      let current = seed;
+      let slope = 0;
+      // Own stroke thickness, learned from the runs this trace has followed
+      let stroke = Math.min(MAX_STROKE_PX, seed.y1 - seed.y0 + 1);
+      // A stroke steeper than 1 px/column also spans |slope| - 1 extra pixels per column
+      const aliasing = () => Math.max(0, Math.abs(slope) - 1);
+
+      // Where a trace would sit on a run: inside a merged run (crossing) it stays
+      // on the predicted line, otherwise it takes the run centre
+      const isMergedRun = (run: ColumnRun) => 
+        points.length > 2 && run.y1 - run.y0 + 1 > stroke + aliasing() + MERGE_MARGIN_PX;
+      const positionOnRun = (run: ColumnRun, predicted: number) => {
+        const isMerged = isMergedRun(run);
+        return isMerged 
+          ? Math.min(run.y1, Math.max(run.y0, predicted)) 
+          : (run.y0 + run.y1) / 2;
+      };
+
+      while (true) {
+        const last = points[points.length - 1];
+        // Until a heading exists, only follow runs touching the current one (8-connected)
+        const isSeeding = points.length <= 2;
+        let next: ColumnRun | null = null;
+        let nextPoint: Point | null = null;
 
-  // HIGH SPEED KERNEL UPDATE
-  // We include dx=0 to allow "climbing" vertical lines (infinite/very high speed).
-  // We also extend dy range significantly.
-  const searchSpace = [
-    // 1. Vertical Climbing (Critical for high speed)
-    {dx: 0, dy: 1}, {dx: 0, dy: -1},
-    
-    // 2. Standard Forward Connectivity
-    {dx: 1, dy: 0}, 
-    {dx: 1, dy: 1}, {dx: 1, dy: -1},
-    {dx: 1, dy: 2}, {dx: 1, dy: -2},
-    {dx: 1, dy: 3}, {dx: 1, dy: -3},
-    {dx: 1, dy: 4}, {dx: 1, dy: -4},
-    {dx: 1, dy: 5}, {dx: 1, dy: -5},
-
-    // 3. Gap Jumping (Broken lines)
-    {dx: 2, dy: 0}, 
-    {dx: 2, dy: 1}, {dx: 2, dy: -1},
-    {dx: 2, dy: 2}, {dx: 2, dy: -2},
-    
-    // 4. Aggressive Vertical Reach for Gap Jumping
-    {dx: 2, dy: 3}, {dx: 2, dy: -3},
-    {dx: 2, dy: 4}, {dx: 2, dy: -4},
-    
-    // 5. Long Range Gap
-    {dx: 3, dy: 0}, {dx: 3, dy: 1}, {dx: 3, dy: -1}
-  ];
-
-  for (let x = 0; x < width; x += columnStep) {
-    for (let y = 0; y < height; y += 1) {
-      if (!visited[y * width + x] && isForeground(x, y)) {
-        const points: Point[] = [];
-        let currX = x;
-        let currY = y;
-        
-        while (currX < width && currY < height && currY >= 0) {
-          if (visited[currY * width + currX]) break;
-          visited[currY * width + currX] = 1;
-          points.push(toWorld(currX, currY));
-          
-          let foundNext = false;
-          
-          for (const s of searchSpace) {
-            const nx = currX + s.dx;
-            const ny = currY + s.dy;
-            
-            // Boundary Check + Not Visited + Is Black
-            if (nx < width && ny >= 0 && ny < height && !visited[ny * width + nx] && isForeground(nx, ny)) {
-              currX = nx;
-              currY = ny;
-              foundNext = true;
-              break; // Greedy: Take first valid neighbor
+        // Candidates over the whole gap horizon compete; skipped columns cost a little,
+        // so a well-aligned stroke after a gap beats a poorly aligned one right away
+        let bestCost = Infinity;
+        for (let dx = 1; dx <= tracing.maxGap && last.x + dx < width; dx++) {
+          if (dx - 1 >= bestCost / GAP_PENALTY_PX || (isSeeding && dx > 1)) break;
+          const predicted = last.y + slope * dx;
+          for (const run of columns[last.x + dx]) {
+            if (isSeeding && (run.y0 > current.y1 + 1 || run.y1 < current.y0 - 1)) continue;
+            const y = positionOnRun(run, predicted);
+            const slack = isSeeding ? (current.y1 - current.y0 + run.y1 - run.y0) / 2 : 0;
+            const reach = tracing.tolerance + slack + 0.25 * Math.abs(slope) * dx;
+            const deviation = Math.abs(y - predicted);
+            // Half a pixel of deviation is just aliasing and costs nothing
+            const cost = Math.max(0, deviation - 0.5) + GAP_PENALTY_PX * (dx - 1);
+            if (deviation <= reach && cost < bestCost) {
+              bestCost = cost;
+              next = run;
+              nextPoint = { x: last.x + dx, y };
             }
           }
-          if (!foundNext) break;
         }
+        if (!next || !nextPoint) break;
+
+        // Runs crossed by the bridged segment belong to this trace too (no duplicate seeds)
+        for (let gx = last.x + 1; gx < nextPoint.x; gx++) {
+          const gy = last.y + (nextPoint.y - last.y) * (gx - last.x) / (nextPoint.x - last.x);
+          columns[gx].forEach(run => {
+            if (run.owner === -1 && run.y0 - stroke <= gy && gy <= run.y1 + stroke) run.owner = owner;
+          });
+        }
+        if (next.owner === -1) next.owner = owner;
+        else if (next.owner !== owner) shared++;
+        if (!isMergedRun(next)) {
+          // Slow-moving average so a few odd runs do not inflate the stroke
+          stroke = 0.8 * stroke + 0.2 * Math.min(MAX_STROKE_PX, Math.max(1, next.y1 - next.y0 + 1 - aliasing()));
+          anchors.push(nextPoint);
+          slope = estimateSlope(anchors, tracing.headingWindow);
+        }
+        current = next;
+        points.push(nextPoint);
+      }
+
+      // Filter out tiny noise (path must span > 5 pixels) and re-traces of an earlier
+      // trajectory (seeded from a leftover pixel, e.g. a skeleton junction)
+      let span = 0;
+      for (let i = 1; i < points.length; i++) {
+        span += Math.hypot(points[i].x - points[i-1].x, points[i].y - points[i-1].y);
+      }
+      if (span > 5 && shared / points.length <= MAX_SHARED_FRACTION) { 
+        paths.push(points);
+      }
+    }
+  }
+
+  return paths;
+};
+
+/**
+ * Zhang-Suen thinning.
+ * Peels thick strokes down to a one-pixel, 8-connected skeleton so a
+ * 2-4 px line yields a single trace along its middle.
+ */
+export const thinMask = (mask: Uint8Array, width: number, height: number): Uint8Array => {
+  const img = mask.slice();
+  const toClear: number[] = [];
+  let changed = true;
+
+  while (changed) {
+    changed = false;
+    for (let pass = 0; pass < 2; pass++) {
+      toClear.length = 0;
+      for (let y = 1; y < height - 1; y++) {
+        for (let x = 1; x < width - 1; x++) {
+          const p = y * width + x;
+          if (!img[p]) continue;
+
+          // Neighbours P2..P9, clockwise from north
+          const n = [
+            img[p - width], img[p - width + 1], img[p + 1], img[p + width + 1],
+            img[p + width], img[p + width - 1], img[p - 1], img[p - width - 1]
+          ];
+          const count = n.reduce((a, v) => a + v, 0);
+          if (count < 2 || count > 6) continue;
+
+          let transitions = 0;
+          for (let k = 0; k < 8; k++) {
+            if (!n[k] && n[(k + 1) % 8]) transitions++;
+          }
+          if (transitions !== 1) continue;
+
+          const [p2, , p4, , p6, , p8] = n;
+          if (pass === 0 && (p2 && p4 && p6 || p4 && p6 && p8)) continue;
+          if (pass === 1 && (p2 && p4 && p8 || p2 && p6 && p8)) continue;
+          toClear.push(p);
+        }
+      }
+      toClear.forEach(p => { img[p] = 0; });
+      if (toClear.length > 0) changed = true;
+    }
+  }
+  return img;
+};
+
+// Strokes at least this thick (px) are thinned before tracing
+const THIN_STROKE_PX = 3;
+
+/**
+ * Median stroke width of a mask in px.
+ * Each foreground pixel takes the shorter of its horizontal and vertical
+ * runs, which is close to the stroke width for any line orientation.
+ */
+export const estimateStrokeWidth = (mask: Uint8Array, width: number, height: number): number => {
+  const horizontal = new Uint16Array(mask.length);
+  for (let y = 0; y < height; y++) {
+    let x = 0;
+    while (x < width) {
+      if (!mask[y * width + x]) { x++; continue; }
+      let end = x;
+      while (end < width && mask[y * width + end]) end++;
+      for (let k = x; k < end; k++) horizontal[y * width + k] = end - x;
+      x = end;
+    }
+  }
+
+  const histogram = new Uint32Array(64);
+  let total = 0;
+  for (let x = 0; x < width; x++) {
+    let y = 0;
+    while (y < height) {
+      if (!mask[y * width + x]) { y++; continue; }
+      let end = y;
+      while (end < height && mask[end * width + x]) end++;
+      for (let k = y; k < end; k++) {
+        histogram[Math.min(63, Math.min(end - y, horizontal[k * width + x]))]++;
+        total++;
+      }
+      y = end;
+    }
+  }
 
-        // Filter out tiny noise (must be > 5 pixels long)
-        if (points.length > 5) { 
-          trajectories.push({ id: idCounter++, points });
+  let acc = 0;
+  for (let w = 0; w < histogram.length; w++) {
+    acc += histogram[w];
+    if (acc >= total / 2) return w;
+  }
+  return 0;
+};
+
+/**
+ * Grows a mask by one pixel (3x3), so anti-aliased stroke edges that fell
+ * below the threshold still contribute to the centreline weights.
+ */
+const dilateMask = (mask: Uint8Array, width: number, height: number): Uint8Array => {
+  const out = new Uint8Array(mask.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!mask[y * width + x]) continue;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx, ny = y + dy;
+          if (nx >= 0 && nx < width && ny >= 0 && ny < height) out[ny * width + nx] = 1;
         }
       }
     }
   }
+  return out;
+};
+
+/**
+ * Intensity-weighted sub-pixel centreline refinement.
+ * 
+ * Each point is moved along the local normal of its path to the centroid
+ * of the ink profile within `radius` px. Where strong ink reaches both ends of
+ * the profile (a crossing, or a stroke wider than the window) the point is left
+ * as traced rather than being pulled towards the other line.
+ */
+const refineCentreline = (
+  path: Point[], 
+  weights: Float32Array, 
+  width: number, 
+  height: number, 
+  radius: number
+): Point[] => {
+  const sample = (x: number, y: number) => {
+    if (x < 0 || y < 0 || x > width - 1 || y > height - 1) return 0;
+    const x0 = Math.floor(x), y0 = Math.floor(y);
+    const x1 = Math.min(width - 1, x0 + 1), y1 = Math.min(height - 1, y0 + 1);
+    const fx = x - x0, fy = y - y0;
+    return weights[y0 * width + x0] * (1 - fx) * (1 - fy) + weights[y0 * width + x1] * fx * (1 - fy)
+         + weights[y1 * width + x0] * (1 - fx) * fy + weights[y1 * width + x1] * fx * fy;
+  };
+
+  return path.map((p, i) => {
+    const prev = path[Math.max(0, i - 1)];
+    const next = path[Math.min(path.length - 1, i + 1)];
+    const tx = next.x - prev.x, ty = next.y - prev.y;
+    const len = Math.hypot(tx, ty);
+    if (len === 0) return p;
+    const nx = -ty / len, ny = tx / len;
+
+    let sum = 0, moment = 0, peak = 0;
+    const step = 0.5;
+    for (let t = -radius; t <= radius; t += step) {
+      const w = sample(p.x + t * nx, p.y + t * ny);
+      sum += w;
+      moment += w * t;
+      peak = Math.max(peak, w);
+    }
+    if (sum === 0) return p;
+    const edgeA = sample(p.x - radius * nx, p.y - radius * ny);
+    const edgeB = sample(p.x + radius * nx, p.y + radius * ny);
+    if (edgeA > peak / 2 && edgeB > peak / 2) return p;
+
+    const offset = moment / sum;
+    return { x: p.x + offset * nx, y: p.y + offset * ny };
+  });
+};
+
+/**
+ * Counts foreground pixels farther than `radius` from every traced path
+ * (legends, text, missed vehicles), for the diagnostics report.
+ */
+const countOrphanPixels = (
+  mask: Uint8Array,
+  paths: Point[][],
+  width: number,
+  height: number,
+  radius: number
+): { foregroundPixels: number; orphanPixels: number } => {
+  const covered = new Uint8Array(width * height);
+  const stamp = (cx: number, cy: number) => {
+    const x0 = Math.max(0, Math.floor(cx - radius)), x1 = Math.min(width - 1, Math.ceil(cx + radius));
+    const y0 = Math.max(0, Math.floor(cy - radius)), y1 = Math.min(height - 1, Math.ceil(cy + radius));
+    for (let y = y0; y <= y1; y++) {
+      for (let x = x0; x <= x1; x++) covered[y * width + x] = 1;
+    }
+  };
+  paths.forEach(path => {
+    path.forEach((p, i) => {
+      if (i === 0) { stamp(p.x, p.y); return; }
+      // Fill steep steps so the whole stroke between two columns counts as traced
+      const prev = path[i - 1];
+      const steps = Math.max(1, Math.ceil(Math.max(Math.abs(p.x - prev.x), Math.abs(p.y - prev.y))));
+      for (let k = 1; k <= steps; k++) {
+        stamp(prev.x + (p.x - prev.x) * k / steps, prev.y + (p.y - prev.y) * k / steps);
+      }
+    });
+  });
+
+  let foregroundPixels = 0, orphanPixels = 0;
+  for (let p = 0; p < mask.length; p++) {
+    if (!mask[p]) continue;
+    foregroundPixels++;
+    if (!covered[p]) orphanPixels++;
+  }
+  return { foregroundPixels, orphanPixels };
+};
+
+// Share of the progress bar spent before tracing starts (binarization, palette)
+const PREPARE_PROGRESS = 10;
+
+/**
+ * Enhanced trajectory extraction using the configured binarization.
+ * With colour classes enabled, each class is traced separately and
+ * every trajectory is tagged with its classId.
+ * 
+ * Works on raw pixels only, so it runs unchanged in a Web Worker.
+ * Points are mapped to world units through the lane's axis calibration
+ * (image edges = 0..extent when there is none). Ink outside the lane's
+ * ROI or inside an exclusion is ignored, for tracing and refinement alike.
+ */
+export const extractTrajectories = (
+  image: PixelBuffer,
+  extent: Extent,
+  calibration: AxisCalibration | null = null,
+  regions: ExtractionMask | null = null,
+  settings: ExtractionSettings = DEFAULT_EXTRACTION_SETTINGS,
+  onProgress?: ExtractionProgressCallback
+): ExtractionOutput => {
+  const { data, width, height } = image;
+  
+  // 1. Binarization (non-destructive: colours are still needed for class split)
+  const distance = computeBackgroundDistance(data, width, height, settings.binarization.background);
+  const mask = classifyForeground(distance, width, height, settings.binarization);
+
+  const allowed = rasterizeExtractionMask(width, height, regions);
+  if (allowed) {
+    for (let p = 0; p < allowed.length; p++) {
+      if (allowed[p]) continue;
+      mask[p] = 0;
+      distance[p] = 0;
+    }
+  }
+
+  const { toWorld } = createPixelTransform(width, height, extent, calibration);
+
+  const classes = resolveColorClasses(data, mask, settings);
+  onProgress?.(PREPARE_PROGRESS, 0);
+
+  // 2. Extraction Scan, per colour class
+  const trajectories: Trajectory[] = [];
+  const pixelPaths: Point[][] = [];
+  let idCounter = 1;
+
+  // Progress is reported in ~5% steps over all classes' columns
+  const passes = Math.max(1, classes.length);
+  const reportEvery = Math.max(1, Math.floor(width * passes / 20));
+
+  // Thin (thick strokes only: a skeleton would hide the merged runs the tracer
+  // uses to recognise crossings of thin lines), trace, then refine against the
+  // un-thinned ink of the same class
+  const { centreline } = settings;
+  const traceClass = (classMask: Uint8Array, pass: number): Point[][] => {
+    const shouldThin = centreline.thinning && estimateStrokeWidth(classMask, width, height) >= THIN_STROKE_PX;
+    const skeleton = shouldThin ? thinMask(classMask, width, height) : classMask;
+    const paths = traceMask(skeleton, width, height, settings.tracing, (x, pathCount) => {
+      const column = pass * width + x;
+      if (onProgress && column % reportEvery === 0) {
+        const percent = PREPARE_PROGRESS + (100 - PREPARE_PROGRESS) * column / (width * passes);
+        onProgress(Math.round(percent), trajectories.length + pathCount);
+      }
+    });
+    if (!centreline.subPixel) return paths;
+
+    const support = dilateMask(classMask, width, height);
+    const weights = new Float32Array(support.length);
+    for (let p = 0; p < support.length; p++) {
+      if (support[p]) weights[p] = distance[p];
+    }
+    return paths.map(path => refineCentreline(path, weights, width, height, centreline.radius));
+  };
+
+  if (classes.length === 0) {
+    traceClass(mask, 0).forEach(path => {
+      pixelPaths.push(path);
+      trajectories.push({ id: idCounter++, points: path.map(toWorld) });
+    });
+  } else {
+    const classMasks = splitMaskByColor(data, mask, classes, settings.colorTolerance);
+    classMasks.forEach((classMask, k) => {
+      traceClass(classMask, k).forEach(path => {
+        pixelPaths.push(path);
+        trajectories.push({ id: idCounter++, points: path.map(toWorld), classId: classes[k].id });
+      });
+    });
+  }
+
+  const orphanRadius = Math.ceil(estimateStrokeWidth(mask, width, height) / 2) + 1;
+  const pixelStats = countOrphanPixels(mask, pixelPaths, width, height, orphanRadius);
 
-  return trajectories;
+  onProgress?.(100, trajectories.length);
+  return { trajectories, colorClasses: classes, pixelStats };
 };
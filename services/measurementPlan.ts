@@ -0,0 +1,204 @@
+import {
+  AnalysisMode,
+  AnalysisResult,
+  AnalysisVisual,
+  MeasurementPlan,
+  MeasurementStep,
+  PlanSummaryRow,
+  Point,
+  Trajectory
+} from '../types';
+import { WorldBounds } from '../utils/calibration';
+import {
+  MeasuredBatch,
+  getYAtTime,
+  measureLine,
+  measureLoopDetector,
+  measurePlatoon,
+  measurePolygon
+} from './measurements';
+import { csvField } from './trajectoryExporter';
+
+const PLAN_MODES = [AnalysisMode.LINE, AnalysisMode.POLYGON, AnalysisMode.LOOP_DETECTOR, AnalysisMode.PLATOON];
+
+const stepKey = (mode: AnalysisMode, batchId?: number) => `${mode}:${batchId}`;
+
+// Rebuilds the parameters of a measurement from its first visual
+const describeStep = (result: AnalysisResult, visual: AnalysisVisual, platoonSize: number): MeasurementStep | null => {
+  const base = { mode: result.mode, batchId: result.batchId!, classId: result.classId };
+  const poly = visual.points;
+  switch (result.mode) {
+    case AnalysisMode.LINE:
+    case AnalysisMode.POLYGON:
+      return { ...base, points: poly };
+    case AnalysisMode.LOOP_DETECTOR: {
+      // Samples are parallelograms: bottom edge along the wave, constant height
+      const interval = poly[1].x - poly[0].x;
+      if (!(interval > 0)) return null;
+      const waveSpeed = (poly[1].y - poly[0].y) / interval;
+      const length = poly[3].y - poly[0].y;
+      const centre = { x: poly[0].x + interval / 2, y: poly[0].y + waveSpeed * interval / 2 + length / 2 };
+      return { ...base, points: [centre], waveSpeed, interval, length };
+    }
+    case AnalysisMode.PLATOON: {
+      if (!visual.anchor) return null;
+      // Both ends of a slice lie on lines along the wave, h apart
+      const [a, b, c, d] = poly;
+      const dx = b.x - a.x !== 0 ? b.x - a.x : c.x - d.x;
+      if (dx === 0) return null;
+      const waveSpeed = (b.x - a.x !== 0 ? b.y - a.y : c.y - d.y) / dx;
+      const length = (d.y - waveSpeed * d.x) - (a.y - waveSpeed * a.x);
+      return { ...base, points: [visual.anchor], waveSpeed, length, platoonSize };
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Captures the measurements of a lane as a plan, one step per batch.
+ * Platoons use the given size; their slice height and wave speed are read
+ * back from the drawn slices.
+ */
+export const buildMeasurementPlan = (
+  results: AnalysisResult[],
+  visuals: AnalysisVisual[],
+  sourceLane: number,
+  platoonSize: number
+): MeasurementPlan => {
+  const seen = new Set<string>();
+  const steps: MeasurementStep[] = [];
+  results.forEach((result, i) => {
+    if (!PLAN_MODES.includes(result.mode) || result.batchId === undefined || !visuals[i]) return;
+    const key = stepKey(result.mode, result.batchId);
+    if (seen.has(key)) return;
+    seen.add(key);
+    const step = describeStep(result, visuals[i], platoonSize);
+    if (step) steps.push(step);
+  });
+  return { sourceLane, steps };
+};
+
+// Anchor rule for other lanes: the vehicle closest in space at the anchor time
+const findAnchor = (trajectories: Trajectory[], anchor: Point): { traj: Trajectory; point: Point } | null => {
+  let best: { traj: Trajectory; point: Point } | null = null;
+  let bestDist = Infinity;
+  trajectories.forEach(traj => {
+    const y = getYAtTime(traj, anchor.x);
+    if (y === null || Math.abs(y - anchor.y) >= bestDist) return;
+    bestDist = Math.abs(y - anchor.y);
+    best = { traj, point: { x: anchor.x, y } };
+  });
+  return best;
+};
+
+/**
+ * Measures every step of the plan on one lane's trajectories. Steps that
+ * find nothing to measure (no platoon at the anchor time) are listed in skipped.
+ */
+export const replayMeasurementPlan = (
+  plan: MeasurementPlan,
+  trajectories: Trajectory[],
+  bounds: WorldBounds,
+  nextExperimentId: () => number
+): MeasuredBatch & { skipped: MeasurementStep[] } => {
+  const measured: MeasuredBatch & { skipped: MeasurementStep[] } = { results: [], visuals: [], skipped: [] };
+  plan.steps.forEach(step => {
+    const active = step.classId === undefined ? trajectories : trajectories.filter(t => t.classId === step.classId);
+    const stamp = { experimentId: nextExperimentId(), batchId: step.batchId, classId: step.classId };
+    let batch: MeasuredBatch | null = null;
+    if (step.mode === AnalysisMode.LINE) {
+      batch = measureLine(active, step.points[0], step.points[1], stamp);
+    } else if (step.mode === AnalysisMode.POLYGON) {
+      batch = measurePolygon(active, step.points, stamp);
+    } else if (step.mode === AnalysisMode.LOOP_DETECTOR) {
+      batch = measureLoopDetector(active, step.points[0].y, step.waveSpeed!, step.interval!, step.length!, bounds, stamp);
+    } else if (step.mode === AnalysisMode.PLATOON) {
+      const anchor = findAnchor(active, step.points[0]);
+      if (anchor) batch = measurePlatoon(active, anchor.traj, anchor.point, step.platoonSize!, step.length!, step.waveSpeed!, bounds, stamp);
+    }
+    // A platoon cut down to one vehicle yields only empty slices
+    if (!batch || batch.results.length === 0 || (step.mode !== AnalysisMode.LINE && batch.results.every(r => r.area === 0))) {
+      measured.skipped.push(step);
+      return;
+    }
+    measured.results.push(...batch.results);
+    measured.visuals.push(...batch.visuals);
+  });
+  return measured;
+};
+
+/**
+ * Replaces the lane's earlier measurements of the plan's batches with the new
+ * ones, so a plan can be applied again after re-extracting a lane.
+ */
+export const mergePlanResults = (
+  results: AnalysisResult[],
+  visuals: AnalysisVisual[],
+  plan: MeasurementPlan,
+  measured: MeasuredBatch
+): MeasuredBatch => {
+  const planned = new Set(plan.steps.map(s => stepKey(s.mode, s.batchId)));
+  const keep = results.map(r => !planned.has(stepKey(r.mode, r.batchId)));
+  return {
+    results: [...results.filter((_, i) => keep[i]), ...measured.results],
+    visuals: [...visuals.filter((_, i) => keep[i]), ...measured.visuals]
+  };
+};
+
+/**
+ * Per-lane aggregates of every plan step plus a cross-lane total. Edie
+ * measurements are pooled (sum of TTD and TTT over sum of areas); the total
+ * adds flows and densities over the lanes, as for a multi-lane cross section.
+ */
+export const summarisePlan = (plan: MeasurementPlan, lanes: { lane: string; results: AnalysisResult[] }[]): PlanSummaryRow[] => {
+  const rows: PlanSummaryRow[] = [];
+  plan.steps.forEach(step => {
+    const laneRows: PlanSummaryRow[] = [];
+    lanes.forEach(({ lane, results }) => {
+      const batch = results.filter(r => r.mode === step.mode && r.batchId === step.batchId);
+      if (batch.length === 0) return;
+      if (step.mode === AnalysisMode.LINE) {
+        const r = batch[0];
+        laneRows.push({ mode: step.mode, batchId: step.batchId, lane, samples: 1, count: r.count ?? 0, flow: r.flow, density: r.density, speed: 0 });
+        return;
+      }
+      const area = batch.reduce((sum, r) => sum + r.area, 0);
+      const ttd = batch.reduce((sum, r) => sum + r.ttd, 0);
+      const ttt = batch.reduce((sum, r) => sum + r.ttt, 0);
+      laneRows.push({
+        mode: step.mode, batchId: step.batchId, lane, samples: batch.length,
+        flow: area > 0 ? ttd / area : 0,
+        density: area > 0 ? ttt / area : 0,
+        speed: ttt > 0 ? ttd / ttt : 0
+      });
+    });
+    if (laneRows.length === 0) return;
+
+    const flow = laneRows.reduce((sum, r) => sum + r.flow, 0);
+    const density = laneRows.reduce((sum, r) => sum + r.density, 0);
+    rows.push(...laneRows, {
+      mode: step.mode, batchId: step.batchId, lane: null,
+      samples: laneRows.reduce((sum, r) => sum + r.samples, 0),
+      count: step.mode === AnalysisMode.LINE ? laneRows.reduce((sum, r) => sum + (r.count ?? 0), 0) : undefined,
+      flow, density,
+      speed: step.mode === AnalysisMode.LINE ? 0 : density > 0 ? flow / density : 0
+    });
+  });
+  return rows;
+};
+
+export const buildPlanSummaryCSV = (rows: PlanSummaryRow[]): string => {
+  const headers = ["Mode", "Batch", "Lane", "Samples", "Count", "Flow (veh/h)", "Density (veh/km)", "Speed (km/h)"];
+  const lines = rows.map(r => [
+    r.mode,
+    r.batchId,
+    csvField(r.lane ?? 'All lanes'),
+    r.samples,
+    r.count ?? '',
+    (r.flow * 60).toFixed(2),
+    (r.density * 1000).toFixed(2),
+    r.mode === AnalysisMode.LINE ? '' : (r.speed * 60 / 1000).toFixed(2)
+  ].join(","));
+  return [headers.join(","), ...lines].join("\n");
+};
@@ -0,0 +1,508 @@
+import { AnalysisMode, AnalysisResult, AnalysisVisual, DetectorRecord, GridShape, Point, Trajectory, TravelDirection, VehiclePassage } from '../types';
+import {
+  calculatePolygonArea,
+  clipPolygonToRect,
+  getClippedSegmentMetrics,
+  getConvexHull,
+  getEdieMeasures,
+  getLineIntersection,
+  getSegmentLineIntersection
+} from '../utils/geometry';
+import { WorldBounds } from '../utils/calibration';
+import { csvField } from './trajectoryExporter';
+
+// Identifies the measurement a result belongs to
+export interface MeasurementStamp {
+  experimentId: number;
+  batchId: number;
+  classId?: number;
+}
+
+// Results and their index-aligned visuals, as appended to a lane
+export interface MeasuredBatch {
+  results: AnalysisResult[];
+  visuals: AnalysisVisual[];
+}
+
+// Vehicles counted by an observer moving along a path
+export interface ObserverPass {
+  path: Point[];
+  observerId?: number; // Trajectory picked as the observer, not counted
+  overtaking: number;  // Vehicles passing the observer (every vehicle met when it moves against the traffic)
+  overtaken: number;   // Vehicles the observer passes
+  duration: number;    // min
+  distance: number;    // m, positive in the direction of travel
+  crossings: Point[];
+}
+
+// Platoons are cut at most this many times
+const MAX_PLATOON_STEPS = 100;
+
+export const MAX_GRID_CELLS = 10000;
+// Border cells clipped to less than this share of a full cell are left out
+const MIN_GRID_CELL_SHARE = 0.5;
+
+export const getYAtTime = (traj: Trajectory, t: number) => {
+  for (let i = 0; i < traj.points.length - 1; i++) {
+    const p1 = traj.points[i], p2 = traj.points[i+1];
+    if ((p1.x <= t && p2.x >= t)) {
+      const ratio = Math.abs(p2.x - p1.x) < 0.0001 ? 0 : (t - p1.x) / (p2.x - p1.x);
+      return p1.y + ratio * (p2.y - p1.y);
+    }
+  }
+  return null;
+};
+
+export const getTrajectoryIntersectionWithLine = (traj: Trajectory, m: number, c: number): Point | null => {
+  for (let i = 0; i < traj.points.length - 1; i++) {
+    const intersection = getSegmentLineIntersection(traj.points[i], traj.points[i+1], m, c);
+    if (intersection) return intersection;
+  }
+  return null;
+};
+
+/**
+ * Counts the trajectories crossing a line: flow relative to its duration,
+ * density relative to its length, and the line's slope as wave speed.
+ */
+export const measureLine = (trajectories: Trajectory[], p1: Point, p2: Point, stamp: MeasurementStamp): MeasuredBatch => {
+  const slope = (p2.y - p1.y) / (p2.x - p1.x);
+  const intersects: Point[] = [];
+  trajectories.forEach(t => {
+    for (let i = 0; i < t.points.length - 1; i++) {
+      const inter = getLineIntersection(p1, p2, t.points[i], t.points[i+1]);
+      if (inter) intersects.push(inter);
+    }
+  });
+
+  // Calculate Relative Flow (N/dt) and Density (N/dx)
+  // Note: dt is in min, dx is in meters
+  const dt = Math.abs(p2.x - p1.x);
+  const dx = Math.abs(p2.y - p1.y);
+  const count = intersects.length;
+
+  // Avoid division by zero, use 0 if undefined
+  const flow = dt > 0.01 ? count / dt : 0;
+  const density = dx > 1 ? count / dx : 0;
+
+  return {
+    results: [{ mode: AnalysisMode.LINE, flow, density, speed: 0, area: 0, ttd: 0, ttt: 0, count, waveSpeed: slope, ...stamp }],
+    visuals: [{ mode: AnalysisMode.LINE, points: [p1, p2], intersections: intersects }]
+  };
+};
+
+export const measurePolygon = (trajectories: Trajectory[], polygon: Point[], stamp: MeasurementStamp): MeasuredBatch => ({
+  results: [{ mode: AnalysisMode.POLYGON, ...getEdieMeasures(trajectories, polygon), ...stamp }],
+  visuals: [{ mode: AnalysisMode.POLYGON, points: polygon }]
+});
+
+/**
+ * Virtual loop detector at position y: consecutive parallelograms of the
+ * given duration and length, tilted along the wave speed, over the whole time range.
+ */
+export const measureLoopDetector = (
+  trajectories: Trajectory[],
+  y: number,
+  waveSpeed: number,
+  interval: number,
+  h: number,
+  bounds: WorldBounds,
+  stamp: MeasurementStamp
+): MeasuredBatch => {
+  const batch: MeasuredBatch = { results: [], visuals: [] };
+  for (let t = bounds.tMin; t < bounds.tMax; t += interval) {
+    const t_center = t + interval / 2;
+    // Fix: Apply offsetY correctly to calculate top/bottom edges of the parallelogram
+    const calcY = (time: number, offsetY: number) => waveSpeed * (time - t_center) + y + offsetY;
+
+    const poly = [
+      { x: t, y: calcY(t, -h/2) },
+      { x: t + interval, y: calcY(t + interval, -h/2) },
+      { x: t + interval, y: calcY(t + interval, h/2) },
+      { x: t, y: calcY(t, h/2) },
+    ];
+    batch.results.push({ mode: AnalysisMode.LOOP_DETECTOR, ...getEdieMeasures(trajectories, poly), ...stamp });
+    batch.visuals.push({ mode: AnalysisMode.POLYGON, points: poly });
+  }
+  return batch;
+};
+
+/**
+ * Follows the platoon of `size` vehicles starting at the anchor trajectory
+ * (upwards in space at the anchor time), cut into slices of height h along
+ * the wave speed. Returns null when there are too few vehicles.
+ */
+export const measurePlatoon = (
+  trajectories: Trajectory[],
+  anchorTraj: Trajectory,
+  anchorPoint: Point,
+  size: number,
+  h: number,
+  waveSpeed: number,
+  bounds: WorldBounds,
+  stamp: MeasurementStamp
+): MeasuredBatch | null => {
+  const t_ref = anchorPoint.x;
+  const activeNeighbors = trajectories
+    .map(t => ({ traj: t, yAtT: getYAtTime(t, t_ref) }))
+    .filter(item => item.yAtT !== null) as { traj: Trajectory, yAtT: number }[];
+
+  activeNeighbors.sort((a, b) => a.yAtT - b.yAtT);
+  const anchorIndex = activeNeighbors.findIndex(item => item.traj.id === anchorTraj.id);
+  if (anchorIndex === -1 || activeNeighbors.length < 2) return null;
+
+  const platoon = activeNeighbors.slice(anchorIndex, anchorIndex + size).map(item => item.traj);
+  const batch: MeasuredBatch = { results: [], visuals: [] };
+
+  let currentIntercept = anchorPoint.y - waveSpeed * anchorPoint.x;
+  let stepCount = 0;
+
+  while (true) {
+    const c1 = currentIntercept;
+    const c2 = currentIntercept + h;
+    if ((waveSpeed * bounds.tMin + c1) > bounds.yMax && (waveSpeed * bounds.tMax + c1) > bounds.yMax) break;
+
+    const p1_traj1 = getTrajectoryIntersectionWithLine(platoon[0], waveSpeed, c1);
+    const p1_trajN = getTrajectoryIntersectionWithLine(platoon[platoon.length-1], waveSpeed, c1);
+    const p2_trajN = getTrajectoryIntersectionWithLine(platoon[platoon.length-1], waveSpeed, c2);
+    const p2_traj1 = getTrajectoryIntersectionWithLine(platoon[0], waveSpeed, c2);
+
+    if (!p1_traj1 || !p1_trajN || !p2_trajN || !p2_traj1) break;
+
+    const poly = [p1_traj1, p1_trajN, p2_trajN, p2_traj1];
+    batch.results.push({ mode: AnalysisMode.PLATOON, ...getEdieMeasures(trajectories, poly), ...stamp });
+
+    const cutIntersections: Point[] = [];
+    const collectIntersections = (m: number, c: number, startP: Point, endP: Point) => {
+        const minX = Math.min(startP.x, endP.x);
+        const maxX = Math.max(startP.x, endP.x);
+        trajectories.forEach(t => {
+            const pt = getTrajectoryIntersectionWithLine(t, m, c);
+            if (pt && pt.x >= minX - 1e-4 && pt.x <= maxX + 1e-4) cutIntersections.push(pt);
+        });
+    };
+
+    collectIntersections(waveSpeed, c1, p1_traj1, p1_trajN);
+    collectIntersections(waveSpeed, c2, p2_traj1, p2_trajN);
+
+    batch.visuals.push({
+      mode: AnalysisMode.POLYGON,
+      points: poly,
+      anchor: stepCount === 0 ? anchorPoint : undefined,
+      intersections: cutIntersections
+    });
+
+    stepCount++;
+    currentIntercept += h;
+    if (stepCount > MAX_PLATOON_STEPS) break;
+  }
+  return batch;
+};
+
+/**
+ * Tiles the diagram into columns of width dt, each cut into cells of height
+ * dx: rectangles, or parallelograms along the wave speed whose edges continue
+ * from column to column. Cells are clipped to the diagram; slivers at the border
+ * are dropped (counted in dropped). Returns null above MAX_GRID_CELLS cells.
+ */
+export const measureGrid = (
+  trajectories: Trajectory[],
+  dt: number,
+  dx: number,
+  shape: GridShape,
+  waveSpeed: number,
+  bounds: WorldBounds,
+  stamp: MeasurementStamp
+): (MeasuredBatch & { dropped: number }) | null => {
+  const w = shape === GridShape.WAVE ? waveSpeed : 0;
+  const columns = Math.ceil((bounds.tMax - bounds.tMin) / dt - 1e-9);
+  const rows = Math.ceil((bounds.yMax - bounds.yMin + Math.abs(w) * dt) / dx - 1e-9) + 1;
+  if (!(columns > 0 && rows > 0) || columns * rows > MAX_GRID_CELLS) return null;
+
+  // Segments per column, so each cell only checks the trajectories passing through it
+  const segments: [Point, Point][][] = Array.from({ length: columns }, () => []);
+  trajectories.forEach(t => {
+    for (let i = 0; i < t.points.length - 1; i++) {
+      const a = t.points[i], b = t.points[i+1];
+      const first = Math.max(0, Math.floor((Math.min(a.x, b.x) - bounds.tMin) / dt));
+      const last = Math.min(columns - 1, Math.floor((Math.max(a.x, b.x) - bounds.tMin) / dt));
+      for (let c = first; c <= last; c++) segments[c].push([a, b]);
+    }
+  });
+
+  const batch = { results: [] as AnalysisResult[], visuals: [] as AnalysisVisual[], dropped: 0 };
+  const fullArea = dt * dx;
+  for (let c = 0; c < columns; c++) {
+    const t0 = bounds.tMin + c * dt;
+    const t1 = Math.min(t0 + dt, bounds.tMax);
+    // Lower edge of band n: y = yMin + n dx + w (t - tMin)
+    const o0 = w * (t0 - bounds.tMin), o1 = w * (t1 - bounds.tMin);
+    const nFirst = Math.floor(-Math.max(o0, o1) / dx);
+    const nLast = Math.ceil((bounds.yMax - bounds.yMin - Math.min(o0, o1)) / dx) - 1;
+    for (let n = nFirst; n <= nLast; n++) {
+      const y0 = bounds.yMin + n * dx;
+      const cell = clipPolygonToRect([
+        { x: t0, y: y0 + o0 },
+        { x: t1, y: y0 + o1 },
+        { x: t1, y: y0 + o1 + dx },
+        { x: t0, y: y0 + o0 + dx },
+      ], bounds.tMin, bounds.tMax, bounds.yMin, bounds.yMax);
+      if (cell.length < 3) continue;
+      const area = calculatePolygonArea(cell);
+      if (area < fullArea * MIN_GRID_CELL_SHARE) {
+        if (area > 0) batch.dropped++;
+        continue;
+      }
+
+      const yLo = Math.min(...cell.map(p => p.y)), yHi = Math.max(...cell.map(p => p.y));
+      let ttd = 0, ttt = 0;
+      segments[c].forEach(([a, b]) => {
+        if (Math.max(a.y, b.y) < yLo || Math.min(a.y, b.y) > yHi) return;
+        const m = getClippedSegmentMetrics(a, b, cell);
+        ttd += m.ttd; ttt += m.ttt;
+      });
+      batch.results.push({ mode: AnalysisMode.GRID, flow: ttd / area, density: ttt / area, speed: ttt > 0 ? ttd / ttt : 0, area, ttd, ttt, ...stamp });
+      batch.visuals.push({ mode: AnalysisMode.POLYGON, points: cell });
+    }
+  }
+  return batch;
+};
+
+// 1 when traffic moves towards increasing positions, -1 otherwise. The lane's
+// declared direction wins; without one it is guessed from the net displacement.
+export const getTravelDirection = (trajectories: Trajectory[], declared?: TravelDirection): 1 | -1 => {
+  if (declared) return declared === TravelDirection.DECREASING ? -1 : 1;
+  const net = trajectories.reduce((sum, t) => sum + (t.points[t.points.length - 1].y - t.points[0].y), 0);
+  return net < 0 ? -1 : 1;
+};
+
+/**
+ * Counts the vehicles crossing an observer path (forward in time), ahead
+ * being the direction of travel.
+ */
+export const countObserverPass = (trajectories: Trajectory[], path: Point[], observerId?: number, declared?: TravelDirection): ObserverPass => {
+  const counted = trajectories.filter(t => t.id !== observerId);
+  const direction = getTravelDirection(counted, declared);
+  const pass: ObserverPass = {
+    path, observerId, overtaking: 0, overtaken: 0,
+    duration: path[path.length - 1].x - path[0].x,
+    distance: direction * (path[path.length - 1].y - path[0].y),
+    crossings: []
+  };
+
+  // Signed area: > 0 when c is left of a->b (above, for a path forward in time)
+  const side = (a: Point, b: Point, c: Point) => (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+  counted.forEach(t => {
+    for (let i = 0; i < t.points.length - 1; i++) {
+      const p1 = t.points[i], p2 = t.points[i+1];
+      for (let j = 0; j < path.length - 1; j++) {
+        const q1 = path[j], q2 = path[j+1];
+        const s1 = side(q1, q2, p1), s2 = side(q1, q2, p2);
+        // Half-open tests, so a crossing at a shared vertex is counted once
+        if ((s1 >= 0) === (s2 >= 0) || (side(p1, p2, q1) >= 0) === (side(p1, p2, q2) >= 0)) continue;
+        const u = s1 / (s1 - s2);
+        pass.crossings.push({ x: p1.x + u * (p2.x - p1.x), y: p1.y + u * (p2.y - p1.y) });
+        // Moving to the side ahead of the observer, forward in time
+        const ahead = (s2 > s1) === (p2.x >= p1.x) ? direction : -direction;
+        if (ahead > 0) pass.overtaking++; else pass.overtaken++;
+      }
+    }
+  });
+  return pass;
+};
+
+/**
+ * Moving-observer method (Wardrop & Charlesworth): each pass counts
+ * overtaking - overtaken = q T - k L, so two passes at different speeds
+ * give q and k. Edie's values over the convex hull of the passes are kept for
+ * comparison. Returns null when the passes have the same speed.
+ */
+export const measureMovingObserver = (
+  trajectories: Trajectory[],
+  first: ObserverPass,
+  second: ObserverPass,
+  stamp: MeasurementStamp
+): MeasuredBatch | null => {
+  const m1 = first.overtaking - first.overtaken, m2 = second.overtaking - second.overtaken;
+  const det = first.distance * second.duration - first.duration * second.distance;
+  if (Math.abs(det) < 1e-9 * Math.max(1, Math.abs(first.distance * second.duration), Math.abs(first.duration * second.distance))) return null;
+
+  const flow = (first.distance * m2 - second.distance * m1) / det;
+  const density = (first.duration * m2 - second.duration * m1) / det;
+  const region = getConvexHull([...first.path, ...second.path]);
+  const edie = getEdieMeasures(trajectories, region);
+  return {
+    results: [{
+      mode: AnalysisMode.MOVING_OBSERVER,
+      flow, density,
+      speed: density > 0 ? flow / density : 0,
+      area: edie.area, ttd: edie.ttd, ttt: edie.ttt,
+      passCounts: [m1, m2],
+      edie: { flow: edie.flow, density: edie.density, speed: edie.speed },
+      ...stamp
+    }],
+    visuals: [{
+      mode: AnalysisMode.MOVING_OBSERVER,
+      points: region,
+      paths: [first.path, second.path],
+      intersections: [...first.crossings, ...second.crossings]
+    }]
+  };
+};
+
+// First time the front reaches position y in the direction of travel, with the speed there
+const getPassage = (traj: Trajectory, y: number, direction: number): { t: number; speed: number } | null => {
+  for (let i = 0; i < traj.points.length - 1; i++) {
+    const a = traj.points[i], b = traj.points[i+1];
+    if (b.x <= a.x || direction * (a.y - y) >= 0 || direction * (b.y - y) < 0) continue;
+    const u = (y - a.y) / (b.y - a.y);
+    return { t: a.x + u * (b.x - a.x), speed: direction * (b.y - a.y) / (b.x - a.x) };
+  }
+  return null;
+};
+
+/**
+ * Vehicles over a loop at position y, in order of passage. The loop is
+ * occupied from the front reaching it until the rear leaves it, i.e. over
+ * vehicleLength + detectorLength; trajectories ending earlier use their spot speed.
+ */
+export const recordPassages = (
+  trajectories: Trajectory[],
+  y: number,
+  vehicleLength: number,
+  detectorLength: number,
+  declared?: TravelDirection
+): VehiclePassage[] => {
+  const direction = getTravelDirection(trajectories, declared);
+  const passages: VehiclePassage[] = [];
+  trajectories.forEach(traj => {
+    const entry = getPassage(traj, y, direction);
+    if (!entry) return;
+    const exit = getPassage(traj, y + direction * (vehicleLength + detectorLength), direction);
+    const occupancy = exit ? exit.t - entry.t : (vehicleLength + detectorLength) / entry.speed;
+    passages.push({ trajectoryId: traj.id, time: entry.t, speed: entry.speed, occupancy, headway: null, gap: null });
+  });
+  passages.sort((a, b) => a.time - b.time);
+  passages.forEach((p, i) => {
+    if (i === 0) return;
+    const prev = passages[i - 1];
+    p.headway = p.time - prev.time;
+    p.gap = p.time - (prev.time + prev.occupancy);
+  });
+  return passages;
+};
+
+// Detector readings over [t0, t1); the last window also takes passages at t1
+const aggregatePassages = (passages: VehiclePassage[], t0: number, t1: number, closed: boolean) => {
+  const inWindow = passages.filter(p => p.time >= t0 && (p.time < t1 || (closed && p.time === t1)));
+  const count = inWindow.length;
+  const slowness = inWindow.reduce((sum, p) => sum + 1 / p.speed, 0);
+  const harmonicSpeed = slowness > 0 ? count / slowness : 0;
+  const flow = count / (t1 - t0);
+  // Occupied time within the window, including vehicles still over the loop from before
+  const occupied = passages.reduce((sum, p) => sum + Math.max(0, Math.min(t1, p.time + p.occupancy) - Math.max(t0, p.time)), 0);
+  return {
+    inWindow,
+    count,
+    flow,
+    density: harmonicSpeed > 0 ? flow / harmonicSpeed : 0,
+    speed: harmonicSpeed,
+    timeMeanSpeed: count > 0 ? inWindow.reduce((sum, p) => sum + p.speed, 0) / count : 0,
+    occupancy: occupied / (t1 - t0)
+  };
+};
+
+const getDetectorZone = (y: number, zone: number, t0: number, t1: number): Point[] => [
+  { x: t0, y: y - zone / 2 },
+  { x: t1, y: y - zone / 2 },
+  { x: t1, y: y + zone / 2 },
+  { x: t0, y: y + zone / 2 },
+];
+
+// Detector readings pooled over every interval, against Edie over the same span
+export interface PointDetectorSummary {
+  intervals: number;
+  duration: number;       // min
+  partial: boolean;       // The last interval is shorter than the others
+  count: number;
+  flow: number;           // veh/min
+  density: number;        // veh/m, flow over the harmonic mean speed
+  speed: number;          // m/min, harmonic mean
+  timeMeanSpeed: number;  // m/min
+  occupancy: number;
+  edie: { flow: number; density: number; speed: number };
+}
+
+/**
+ * Point detector at position y: per interval the count, time-mean and
+ * harmonic-mean spot speeds and occupancy, with density as flow over the
+ * harmonic mean. Edie's values over the interval and a zone centred on
+ * the loop are kept for comparison. A shorter interval left at the end of
+ * the diagram is measured too and flagged as partial.
+ */
+export const measurePointDetector = (
+  trajectories: Trajectory[],
+  y: number,
+  interval: number,
+  vehicleLength: number,
+  detectorLength: number,
+  zone: number,
+  bounds: WorldBounds,
+  stamp: MeasurementStamp,
+  declared?: TravelDirection
+): MeasuredBatch & { passages: VehiclePassage[]; summary: PointDetectorSummary } => {
+  const passages = recordPassages(trajectories, y, vehicleLength, detectorLength, declared);
+  const results: AnalysisResult[] = [];
+  const visuals: AnalysisVisual[] = [];
+  // Slivers shorter than this share of an interval are not worth a row
+  const minWindow = interval * 1e-6;
+  for (let t0 = bounds.tMin; bounds.tMax - t0 > minWindow; t0 += interval) {
+    const t1 = Math.min(t0 + interval, bounds.tMax);
+    const last = bounds.tMax - t1 <= minWindow;
+    const { inWindow, timeMeanSpeed, occupancy, ...readings } = aggregatePassages(passages, t0, t1, last);
+    const region = getDetectorZone(y, zone, t0, t1);
+    const edie = getEdieMeasures(trajectories, region);
+    results.push({
+      mode: AnalysisMode.POINT_DETECTOR,
+      ...readings,
+      area: edie.area, ttd: edie.ttd, ttt: edie.ttt,
+      occupancy,
+      timeMeanSpeed,
+      edie: { flow: edie.flow, density: edie.density, speed: edie.speed },
+      ...(t1 - t0 < interval - minWindow ? { partial: true } : {}),
+      ...stamp
+    });
+    visuals.push({ mode: AnalysisMode.POINT_DETECTOR, points: region, intersections: inWindow.map(p => ({ x: p.time, y })) });
+  }
+
+  const { inWindow: _, ...pooled } = aggregatePassages(passages, bounds.tMin, bounds.tMax, true);
+  const edie = getEdieMeasures(trajectories, getDetectorZone(y, zone, bounds.tMin, bounds.tMax));
+  const summary: PointDetectorSummary = {
+    intervals: results.length,
+    duration: bounds.tMax - bounds.tMin,
+    partial: results[results.length - 1]?.partial === true,
+    ...pooled,
+    edie: { flow: edie.flow, density: edie.density, speed: edie.speed }
+  };
+  return { results, visuals, passages, summary };
+};
+
+/**
+ * One row per vehicle passage: spot speed (km/h), occupancy, headway and gap (s).
+ */
+export const buildDetectorRecordsCSV = (records: DetectorRecord[]): string => {
+  const headers = ["Lane", "Detector", "Position (m)", "Trajectory", "Time (min)", "Speed (km/h)", "Occupancy (s)", "Headway (s)", "Gap (s)"];
+  const seconds = (t: number | null) => t === null ? '' : (t * 60).toFixed(2);
+  const lines = records.flatMap(r => r.passages.map(p => [
+    csvField(r.lane),
+    r.batchId,
+    r.position.toFixed(1),
+    p.trajectoryId,
+    p.time.toFixed(5),
+    (p.speed * 60 / 1000).toFixed(2),
+    seconds(p.occupancy),
+    seconds(p.headway),
+    seconds(p.gap)
+  ].join(",")));
+  return [headers.join(","), ...lines].join("\n");
+};
@@ -0,0 +1,206 @@
+import {
+  Point,
+  PostProcessingReport,
+  PostProcessingSettings,
+  SmoothingFilter,
+  Trajectory
+} from '../types';
+
+export const DEFAULT_POST_PROCESSING_SETTINGS: PostProcessingSettings = {
+  stitch: true,
+  maxTimeGap: 0.1,
+  maxSpaceGap: 10,
+  maxSlopeDiff: 250, // 15 km/h
+  monotonicTime: true,
+  smoothing: SmoothingFilter.NONE,
+  smoothingWindow: 7,
+  resample: false,
+  timeStep: 1 / 60 // 1 s
+};
+
+// Points at each end used to estimate the speed a fragment leaves/enters with
+const END_SLOPE_POINTS = 10;
+
+const countPoints = (trajectories: Trajectory[]) => trajectories.reduce((n, t) => n + t.points.length, 0);
+
+// Least-squares speed (dy/dx) over a run of points
+const fitSlope = (points: Point[]): number => {
+  const n = points.length;
+  if (n < 2) return 0;
+  const mx = points.reduce((s, p) => s + p.x, 0) / n;
+  const my = points.reduce((s, p) => s + p.y, 0) / n;
+  let sxx = 0, sxy = 0;
+  points.forEach(p => {
+    sxx += (p.x - mx) ** 2;
+    sxy += (p.x - mx) * (p.y - my);
+  });
+  return sxx > 1e-12 ? sxy / sxx : 0;
+};
+
+/**
+ * Keeps only points strictly later than the last kept one.
+ */
+export const enforceMonotonicTime = (points: Point[]): Point[] => {
+  const kept: Point[] = [];
+  points.forEach(p => {
+    if (kept.length === 0 || p.x > kept[kept.length - 1].x) kept.push(p);
+  });
+  return kept;
+};
+
+/**
+ * Joins fragments whose end and the next fragment's start agree in time,
+ * extrapolated position and speed. Cheapest joins are made first and every
+ * end/start is used at most once; fragments of different colour classes
+ * are never joined.
+ */
+export const stitchFragments = (
+  trajectories: Trajectory[],
+  settings: PostProcessingSettings
+): { trajectories: Trajectory[]; joins: number } => {
+  const ends = trajectories.map(t => ({
+    first: t.points[0],
+    last: t.points[t.points.length - 1],
+    startSlope: fitSlope(t.points.slice(0, END_SLOPE_POINTS)),
+    endSlope: fitSlope(t.points.slice(-END_SLOPE_POINTS))
+  }));
+
+  const candidates: { from: number; to: number; cost: number }[] = [];
+  trajectories.forEach((a, i) => {
+    trajectories.forEach((b, j) => {
+      if (i === j || a.classId !== b.classId) return;
+      const dt = ends[j].first.x - ends[i].last.x;
+      if (dt <= 0 || dt > settings.maxTimeGap) return;
+      const predicted = ends[i].last.y + ends[i].endSlope * dt;
+      const dy = Math.abs(ends[j].first.y - predicted);
+      const dv = Math.abs(ends[j].startSlope - ends[i].endSlope);
+      if (dy > settings.maxSpaceGap || dv > settings.maxSlopeDiff) return;
+      candidates.push({
+        from: i,
+        to: j,
+        cost: dt / settings.maxTimeGap + dy / settings.maxSpaceGap + dv / settings.maxSlopeDiff
+      });
+    });
+  });
+  candidates.sort((u, v) => u.cost - v.cost);
+
+  // Joins always move forward in time, so the links cannot form cycles
+  const next = new Array<number>(trajectories.length).fill(-1);
+  const hasPrev = new Array<boolean>(trajectories.length).fill(false);
+  let joins = 0;
+  candidates.forEach(({ from, to }) => {
+    if (next[from] !== -1 || hasPrev[to]) return;
+    next[from] = to;
+    hasPrev[to] = true;
+    joins++;
+  });
+
+  const stitched: Trajectory[] = [];
+  trajectories.forEach((t, i) => {
+    if (hasPrev[i]) return;
+    const points: Point[] = [...t.points];
+    for (let k = next[i]; k !== -1; k = next[k]) points.push(...trajectories[k].points);
+    stitched.push({ ...t, points });
+  });
+  return { trajectories: stitched, joins };
+};
+
+/**
+ * Smooths the positions of a trajectory (times are kept).
+ * Savitzky-Golay fits a local quadratic in time, so uneven spacing is fine.
+ */
+export const smoothPoints = (points: Point[], filter: SmoothingFilter, window: number): Point[] => {
+  const half = Math.floor(window / 2);
+  if (filter === SmoothingFilter.NONE || half < 1 || points.length < 3) return points;
+
+  return points.map((p, i) => {
+    const lo = Math.max(0, i - half);
+    const hi = Math.min(points.length - 1, i + half);
+
+    if (filter === SmoothingFilter.MOVING_AVERAGE) {
+      let sum = 0;
+      for (let k = lo; k <= hi; k++) sum += points[k].y;
+      return { x: p.x, y: sum / (hi - lo + 1) };
+    }
+
+    // Normal equations of y = a + b*u + c*u^2 with u = x - p.x; the estimate is a
+    let s0 = 0, s1 = 0, s2 = 0, s3 = 0, s4 = 0, t0 = 0, t1 = 0, t2 = 0;
+    for (let k = lo; k <= hi; k++) {
+      const u = points[k].x - p.x, y = points[k].y;
+      const u2 = u * u;
+      s0 += 1; s1 += u; s2 += u2; s3 += u2 * u; s4 += u2 * u2;
+      t0 += y; t1 += y * u; t2 += y * u2;
+    }
+    const det = s0 * (s2 * s4 - s3 * s3) - s1 * (s1 * s4 - s3 * s2) + s2 * (s1 * s3 - s2 * s2);
+    if (Math.abs(det) < 1e-18) return p;
+    const a = (t0 * (s2 * s4 - s3 * s3) - s1 * (t1 * s4 - s3 * t2) + s2 * (t1 * s3 - s2 * t2)) / det;
+    return { x: p.x, y: a };
+  });
+};
+
+/**
+ * Linear interpolation onto multiples of the time step inside the trajectory's span.
+ * Trajectories shorter than one step keep their points.
+ */
+export const resamplePoints = (points: Point[], timeStep: number): Point[] => {
+  if (points.length < 2 || timeStep <= 0) return points;
+  const t0 = points[0].x;
+  const t1 = points[points.length - 1].x;
+  const resampled: Point[] = [];
+  let k = 0;
+  for (let n = Math.ceil(t0 / timeStep - 1e-9); n * timeStep <= t1 + 1e-9; n++) {
+    const t = n * timeStep;
+    while (k < points.length - 2 && points[k + 1].x < t) k++;
+    const a = points[k], b = points[k + 1];
+    const r = b.x - a.x > 1e-12 ? Math.min(1, Math.max(0, (t - a.x) / (b.x - a.x))) : 0;
+    resampled.push({ x: t, y: a.y + r * (b.y - a.y) });
+  }
+  return resampled.length >= 2 ? resampled : points;
+};
+
+/**
+ * Post-processing pipeline: monotonic time, stitching, smoothing, resampling.
+ * Trajectories are renumbered from 1.
+ */
+export const postProcessTrajectories = (
+  trajectories: Trajectory[],
+  settings: PostProcessingSettings = DEFAULT_POST_PROCESSING_SETTINGS
+): { trajectories: Trajectory[]; report: PostProcessingReport } => {
+  const pointsBefore = countPoints(trajectories);
+  let current = trajectories;
+
+  if (settings.monotonicTime) {
+    current = current.map(t => ({ ...t, points: enforceMonotonicTime(t.points) }));
+  }
+  const droppedPoints = pointsBefore - countPoints(current);
+  current = current.filter(t => t.points.length >= 2);
+
+  let joins = 0;
+  if (settings.stitch) {
+    const result = stitchFragments(current, settings);
+    current = result.trajectories;
+    joins = result.joins;
+  }
+
+  if (settings.smoothing !== SmoothingFilter.NONE) {
+    current = current.map(t => ({ ...t, points: smoothPoints(t.points, settings.smoothing, settings.smoothingWindow) }));
+  }
+
+  if (settings.resample) {
+    current = current.map(t => ({ ...t, points: resamplePoints(t.points, settings.timeStep) }));
+  }
+
+  current = current.map((t, i) => ({ ...t, id: i + 1 }));
+
+  return {
+    trajectories: current,
+    report: {
+      trajectoriesBefore: trajectories.length,
+      trajectoriesAfter: current.length,
+      pointsBefore,
+      pointsAfter: countPoints(current),
+      joins,
+      droppedPoints
+    }
+  };
+};
@@ -0,0 +1,267 @@
+import {
+  AnalysisMode,
+  AnalysisResult,
+  AnalysisVisual,
+  BackgroundModel,
+  BinarizationMethod,
+  ColorClass,
+  ColorClassMode,
+  ExtractionSettings,
+  GridShape,
+  HeatmapScale,
+  HeatmapVariable,
+  LaneAnalysisData,
+  MeasurementSettings,
+  ProjectFile,
+  ProjectLane,
+  SmoothingFilter,
+  Trajectory
+} from '../types';
+import { FieldIssue, FieldReader, RawObject, isObject } from './fieldReader';
+import { DEFAULT_EXTRACTION_SETTINGS } from './imageProcessor';
+
+export const PROJECT_FORMAT = 'trajectory-explorer-project';
+export const PROJECT_VERSION = 1;
+export const PROJECT_FILE_EXTENSION = '.tproj.json';
+
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectFileError';
+  }
+}
+
+// MIGRATIONS[v] upgrades a version v document to version v + 1. When the format
+// changes, bump PROJECT_VERSION and add the step from the previous version here.
+const MIGRATIONS: Record<number, (project: RawObject) => RawObject> = {};
+
+// Numeric measurement settings, all positive; shared with the manifest reader
+export const MEASUREMENT_FIELDS: Exclude<keyof MeasurementSettings, 'gridShape'>[] = ['platoonN', 'platoonHeight', 'loopInterval', 'loopLength', 'gridTimeStep', 'gridSpaceStep', 'detectorInterval', 'vehicleLength', 'detectorLength', 'detectorZone'];
+
+export type ProjectContent = Omit<ProjectFile, 'format' | 'version' | 'savedAt'>;
+
+export const createProjectDocument = (project: ProjectContent): ProjectFile => ({
+  format: PROJECT_FORMAT,
+  version: PROJECT_VERSION,
+  savedAt: new Date().toISOString(),
+  ...project
+});
+
+export const serializeProject = (project: ProjectContent): string => JSON.stringify(createProjectDocument(project));
+
+// Short label for project lists: first lane (or imported table) and the lane count
+export const describeProject = (project: ProjectContent): string => {
+  const first = project.importedDataset ?? project.lanes[0]?.name ?? 'Project';
+  return project.lanes.length > 1 ? `${first} +${project.lanes.length - 1} lanes` : first;
+};
+
+export const isProjectDocument = (json: unknown): boolean =>
+  isObject(json) && json.format === PROJECT_FORMAT;
+
+const isPositive = (value: unknown): value is number => typeof value === 'number' && isFinite(value) && value > 0;
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+const isOneOf = <T extends string>(values: Record<string, T>, value: unknown): value is T =>
+  Object.values(values).includes(value as T);
+
+// Each field keeps its default unless the raw value has the default's type
+// (a finite number for numbers, a member of the enum for enum fields)
+const readSettings = <T extends object>(defaults: T, raw: unknown, enums: Partial<Record<keyof T, Record<string, string>>> = {}): T => {
+  const settings = { ...defaults };
+  if (!isObject(raw)) return settings;
+  (Object.keys(defaults) as (keyof T & string)[]).forEach(key => {
+    const value = raw[key], enumeration = enums[key];
+    const valid = enumeration ? isOneOf(enumeration, value)
+      : typeof value === typeof defaults[key] && (typeof value !== 'number' || isFinite(value));
+    if (valid) settings[key] = value as T[keyof T & string];
+  });
+  return settings;
+};
+
+const isColorClass = (value: unknown): value is ColorClass =>
+  isObject(value) && isFiniteNumber(value.id) && typeof value.label === 'string' && typeof value.color === 'string' && /^#[0-9a-f]{6}$/i.test(value.color);
+
+// Settings added after a project was saved, or of the wrong type, take their defaults
+export const normaliseExtractionSettings = (raw: unknown): ExtractionSettings => {
+  const settings = isObject(raw) ? raw : {};
+  const defaults = DEFAULT_EXTRACTION_SETTINGS;
+  return {
+    ...readSettings(
+      { colorMode: defaults.colorMode, paletteSize: defaults.paletteSize, colorTolerance: defaults.colorTolerance },
+      settings,
+      { colorMode: ColorClassMode }
+    ),
+    colorClasses: Array.isArray(settings.colorClasses) ? settings.colorClasses.filter(isColorClass) : defaults.colorClasses,
+    binarization: readSettings(defaults.binarization, settings.binarization, { method: BinarizationMethod, background: BackgroundModel }),
+    tracing: readSettings(defaults.tracing, settings.tracing),
+    centreline: readSettings(defaults.centreline, settings.centreline),
+    postProcessing: readSettings(defaults.postProcessing, settings.postProcessing, { smoothing: SmoothingFilter }),
+  };
+};
+
+const readTrajectory = (reader: FieldReader, raw: unknown, at: string): Trajectory | undefined => {
+  if (!isObject(raw)) return reader.fail(at, 'expected { "id", "points" }');
+  const id = reader.finite(raw.id, `${at}.id`);
+  const points = reader.points(raw.points, `${at}.points`);
+  if (id === undefined || points === undefined) return undefined;
+  const traj: Trajectory = { id, points };
+  if (raw.classId !== undefined) traj.classId = reader.finite(raw.classId, `${at}.classId`);
+  if (raw.length !== undefined) traj.length = reader.positive(raw.length, `${at}.length`);
+  return traj;
+};
+
+const readAnalysisResult = (reader: FieldReader, raw: unknown, at: string): AnalysisResult | undefined => {
+  if (!isObject(raw)) return reader.fail(at, 'expected a measurement result');
+  const mode = reader.member(AnalysisMode, raw.mode, `${at}.mode`);
+  const experimentId = reader.finite(raw.experimentId, `${at}.experimentId`);
+  return mode !== undefined && experimentId !== undefined ? { ...raw, mode, experimentId } as AnalysisResult : undefined;
+};
+
+const readAnalysisVisual = (reader: FieldReader, raw: unknown, at: string): AnalysisVisual | undefined => {
+  if (!isObject(raw)) return reader.fail(at, 'expected a measurement shape');
+  const mode = reader.member(AnalysisMode, raw.mode, `${at}.mode`);
+  const points = reader.points(raw.points, `${at}.points`);
+  if (mode === undefined || points === undefined) return undefined;
+  const visual: AnalysisVisual = { mode, points };
+  if (raw.intersections !== undefined) visual.intersections = reader.points(raw.intersections, `${at}.intersections`);
+  if (raw.anchor !== undefined) visual.anchor = reader.point(raw.anchor, `${at}.anchor`);
+  if (raw.paths !== undefined) {
+    visual.paths = Array.isArray(raw.paths)
+      ? raw.paths.map((path, i) => reader.points(path, `${at}.paths[${i}]`) ?? [])
+      : reader.fail(`${at}.paths`, 'expected a list of paths');
+  }
+  return visual;
+};
+
+const readList = <T>(reader: FieldReader, raw: unknown, at: string, read: (reader: FieldReader, raw: unknown, at: string) => T | undefined): T[] => {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    reader.fail(at, 'expected a list');
+    return [];
+  }
+  return raw.map((item, i) => read(reader, item, `${at}[${i}]`)).filter((item): item is T => item !== undefined);
+};
+
+// First few issues, enough to find the broken entry
+const describeIssues = (issues: FieldIssue[]): string => {
+  const shown = issues.slice(0, 3).map(i => `${i.location}: ${i.message}`).join('; ');
+  return issues.length > 3 ? `${shown} (and ${issues.length - 3} more)` : shown;
+};
+
+/**
+ * Checks a saved lane entry by entry. Any invalid trajectory, measurement or
+ * lane setting rejects the project, since dropping one would misalign the
+ * results with their shapes.
+ */
+const normaliseLane = (raw: unknown, idx: number): ProjectLane => {
+  if (!isObject(raw) || typeof raw.name !== 'string') throw new ProjectFileError(`Lane ${idx + 1} has no name`);
+  const at = `lanes[${idx}]`;
+  const reader = new FieldReader();
+  if (raw.data !== undefined && !isObject(raw.data)) reader.fail(`${at}.data`, 'expected an object');
+  if (raw.meta !== undefined && !isObject(raw.meta)) reader.fail(`${at}.meta`, 'expected an object');
+  const data = (isObject(raw.data) ? raw.data : {}) as RawObject;
+  const lane: ProjectLane = {
+    name: raw.name,
+    image: typeof raw.image === 'string' ? raw.image : null,
+    meta: isObject(raw.meta) ? reader.laneMetadata(raw.meta, `${at}.meta`) : undefined,
+    data: {
+      ...data as Partial<LaneAnalysisData>,
+      trajectories: readList(reader, data.trajectories, `${at}.data.trajectories`, readTrajectory),
+      results: readList(reader, data.results, `${at}.data.results`, readAnalysisResult),
+      visuals: readList(reader, data.visuals, `${at}.data.visuals`, readAnalysisVisual),
+    }
+  };
+  if (Array.isArray(data.colorClasses)) lane.data.colorClasses = data.colorClasses.filter(isColorClass);
+  if (reader.issues.length > 0) throw new ProjectFileError(`Lane '${raw.name}' is invalid: ${describeIssues(reader.issues)}`);
+  return lane;
+};
+
+// Settings of the wrong type are dropped like missing ones
+const readMeasurement = (raw: unknown): ProjectFile['measurement'] => {
+  const measurement: ProjectFile['measurement'] = {};
+  if (!isObject(raw)) return measurement;
+  MEASUREMENT_FIELDS.forEach(field => {
+    const value = raw[field];
+    if (isPositive(value)) measurement[field] = value;
+  });
+  if (isOneOf(GridShape, raw.gridShape)) measurement.gridShape = raw.gridShape;
+  return measurement;
+};
+
+const readVisual = (raw: unknown): ProjectFile['visual'] => {
+  const visual: ProjectFile['visual'] = {};
+  if (!isObject(raw)) return visual;
+  if (typeof raw.trajColor === 'string') visual.trajColor = raw.trajColor;
+  if (isFiniteNumber(raw.brightness)) visual.brightness = raw.brightness;
+  if (isFiniteNumber(raw.contrast)) visual.contrast = raw.contrast;
+  if (typeof raw.showDots === 'boolean') visual.showDots = raw.showDots;
+  if (typeof raw.darkMode === 'boolean') visual.darkMode = raw.darkMode;
+  if (isObject(raw.heatmap)) {
+    const heatmap = raw.heatmap;
+    visual.heatmap = {};
+    if (typeof heatmap.enabled === 'boolean') visual.heatmap.enabled = heatmap.enabled;
+    if (isOneOf(HeatmapVariable, heatmap.variable)) visual.heatmap.variable = heatmap.variable;
+    if (isOneOf(HeatmapScale, heatmap.scale)) visual.heatmap.scale = heatmap.scale;
+    if (isFiniteNumber(heatmap.opacity) && heatmap.opacity >= 0 && heatmap.opacity <= 1) visual.heatmap.opacity = heatmap.opacity;
+    if (isPositive(heatmap.timeStep)) visual.heatmap.timeStep = heatmap.timeStep;
+    if (isPositive(heatmap.spaceStep)) visual.heatmap.spaceStep = heatmap.spaceStep;
+  }
+  return visual;
+};
+
+const readCounters = (raw: unknown): ProjectFile['counters'] => {
+  const counters: ProjectFile['counters'] = {};
+  if (!isObject(raw)) return counters;
+  Object.values(AnalysisMode).forEach(mode => {
+    const value = raw[mode];
+    if (isFiniteNumber(value) && value >= 0) counters[mode] = Math.floor(value);
+  });
+  return counters;
+};
+
+/**
+ * Validates a project document and upgrades it to the current version.
+ * Documents written by a newer version are rejected rather than guessed at.
+ */
+export const migrateProject = (json: unknown): ProjectFile => {
+  if (!isObject(json) || !isProjectDocument(json)) throw new ProjectFileError('Not a Trajectory Explorer project file');
+  let project = json;
+  const version = Number(project.version);
+  if (!Number.isInteger(version) || version < 1) throw new ProjectFileError(`Invalid project version '${project.version}'`);
+  if (version > PROJECT_VERSION) {
+    throw new ProjectFileError(`Project was saved by a newer version (format ${version}, supported ${PROJECT_VERSION})`);
+  }
+  for (let v = version; v < PROJECT_VERSION; v++) {
+    const migrate = MIGRATIONS[v];
+    if (!migrate) throw new ProjectFileError(`No migration from project format ${v}`);
+    project = migrate(project);
+  }
+
+  if (!Array.isArray(project.lanes) || project.lanes.length === 0) throw new ProjectFileError('Project has no lanes');
+  const lanes = project.lanes.map(normaliseLane);
+  const extent = project.extent;
+  if (!isObject(extent) || !isPositive(extent.spatial) || !isPositive(extent.temporal)) throw new ProjectFileError('Project has no valid extent');
+
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: typeof project.savedAt === 'string' ? project.savedAt : '',
+    extent: { spatial: extent.spatial, temporal: extent.temporal },
+    lanes,
+    currentLane: Math.min(Math.max(0, Number(project.currentLane) || 0), lanes.length - 1),
+    importedDataset: typeof project.importedDataset === 'string' ? project.importedDataset : null,
+    counters: readCounters(project.counters),
+    extraction: normaliseExtractionSettings(project.extraction),
+    measurement: readMeasurement(project.measurement),
+    visual: readVisual(project.visual),
+  };
+};
+
+export const parseProject = (text: string): ProjectFile => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new ProjectFileError('Project file is not valid JSON');
+  }
+  return migrateProject(json);
+};
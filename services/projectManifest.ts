@@ -0,0 +1,167 @@
+import { Extent, ManifestLane, MeasurementSettings, ProjectManifest } from '../types';
+import { CLOCK_TIME, FieldIssue, FieldReader, isObject } from './fieldReader';
+import { MEASUREMENT_FIELDS, normaliseExtractionSettings } from './projectFile';
+
+export const MANIFEST_FORMAT = 'trajectory-explorer-manifest';
+export const MANIFEST_VERSION = 1;
+
+export type ManifestIssue = FieldIssue;
+
+export class ManifestError extends Error {
+  issues: ManifestIssue[];
+
+  constructor(issues: ManifestIssue[]) {
+    super(issues.map(i => `${i.location}: ${i.message}`).join('; '));
+    this.name = 'ManifestError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Clock time `minutes` after the start time, as HH:MM:SS.
+ */
+export const formatClockTime = (startTime: string, minutes: number): string => {
+  const match = CLOCK_TIME.exec(startTime);
+  if (!match) return '';
+  const start = Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3] ?? 0);
+  const total = ((Math.round(start + minutes * 60) % 86400) + 86400) % 86400;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(Math.floor(total / 3600))}:${pad(Math.floor(total / 60) % 60)}:${pad(total % 60)}`;
+};
+
+export const isManifestDocument = (json: unknown): boolean =>
+  isObject(json) && (json.format === MANIFEST_FORMAT || (json.format === undefined && Array.isArray(json.lanes)));
+
+const readLane = (reader: FieldReader, raw: unknown, idx: number, extent: Extent, startTime?: string): ManifestLane | undefined => {
+  const at = `lanes[${idx}]`;
+  // A bare file name is the shortest lane entry
+  if (typeof raw === 'string') raw = { file: raw };
+  if (!isObject(raw)) return reader.fail(at, 'expected a file name or a lane object');
+
+  const file = reader.text(raw.file, `${at}.file`);
+  const meta = reader.laneMetadata(raw, at);
+  const lane: ManifestLane = {
+    file: file ?? '',
+    ...meta,
+    extent: raw.extent !== undefined ? meta.extent : extent,
+    startTime: raw.startTime !== undefined ? meta.startTime : startTime,
+  };
+  if (raw.offset !== undefined) {
+    if (!isObject(raw.offset)) {
+      reader.fail(`${at}.offset`, 'expected { "time": min, "space": m }');
+    } else {
+      const time = reader.finite(raw.offset.time ?? 0, `${at}.offset.time`);
+      const space = reader.finite(raw.offset.space ?? 0, `${at}.offset.space`);
+      if (time !== undefined && space !== undefined) lane.offset = { time, space };
+    }
+  }
+  if (raw.calibration !== undefined) lane.calibration = reader.calibration(raw.calibration, `${at}.calibration`);
+  return file !== undefined ? lane : undefined;
+};
+
+/**
+ * Validates a JSON manifest. Lane extents and start times default to the
+ * project-level ones. Every problem is collected before throwing, so a single
+ * run reports all of them.
+ */
+export const readManifest = (json: unknown): ProjectManifest => {
+  const reader = new FieldReader();
+  if (!isObject(json)) throw new ManifestError([{ location: 'manifest', message: 'expected a JSON object' }]);
+  if (json.version !== undefined && json.version !== MANIFEST_VERSION) {
+    reader.fail('version', `unsupported manifest version ${JSON.stringify(json.version)} (supported: ${MANIFEST_VERSION})`);
+  }
+
+  const extent = reader.extent(json.extent, 'extent');
+  const startTime = json.startTime !== undefined ? reader.clockTime(json.startTime, 'startTime') : undefined;
+  let lanes: ManifestLane[] = [];
+  const rawLanes: unknown = json.lanes;
+  if (!Array.isArray(rawLanes) || rawLanes.length === 0) {
+    reader.fail('lanes', 'expected a non-empty list of lanes');
+  } else {
+    // Lanes are checked even when the project extent is invalid, the manifest is rejected anyway
+    const laneDefault = extent ?? { spatial: 0, temporal: 0 };
+    lanes = rawLanes
+      .map((raw: unknown, idx: number) => readLane(reader, raw, idx, laneDefault, startTime))
+      .filter((lane): lane is ManifestLane => lane !== undefined);
+  }
+
+  let measurement: Partial<MeasurementSettings> | undefined;
+  const analysis = json.analysis;
+  if (analysis !== undefined) {
+    if (!isObject(analysis)) {
+      reader.fail('analysis', 'expected an object of analysis defaults');
+    } else {
+      const defaults: Partial<MeasurementSettings> = {};
+      MEASUREMENT_FIELDS.forEach(field => {
+        if (analysis[field] === undefined) return;
+        const value = reader.positive(analysis[field], `analysis.${field}`);
+        if (value !== undefined) defaults[field] = value;
+      });
+      measurement = defaults;
+    }
+  }
+  const extraction = json.extraction;
+  if (extraction !== undefined && !isObject(extraction)) reader.fail('extraction', 'expected an object of extraction settings');
+
+  if (reader.issues.length > 0 || !extent) throw new ManifestError(reader.issues);
+  return {
+    name: typeof json.name === 'string' ? json.name : undefined,
+    extent,
+    lanes,
+    measurement,
+    // Settings the manifest leaves out take their defaults
+    extraction: isObject(extraction) ? normaliseExtractionSettings(extraction) : undefined
+  };
+};
+
+// JSON.parse reports a character position; the log shows line and column
+const describeSyntaxError = (text: string, err: unknown): ManifestIssue => {
+  const message = err instanceof Error ? err.message : String(err);
+  const position = /position (\d+)/.exec(message);
+  if (!position) return { location: 'manifest', message };
+  const before = text.slice(0, Number(position[1])).split('\n');
+  return { location: `line ${before.length}, column ${before[before.length - 1].length + 1}`, message: 'invalid JSON' };
+};
+
+// JSON.parse with syntax errors reported as a ManifestError
+export const parseJsonDocument = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch (err) {
+    throw new ManifestError([describeSyntaxError(text, err)]);
+  }
+};
+
+export const parseManifest = (text: string): ProjectManifest => readManifest(parseJsonDocument(text));
+
+/**
+ * Reads the positional Open_all.txt format: lane count, one image file name
+ * per lane, spatial extent (m), temporal extent (min).
+ */
+export const parseLegacyConfig = (text: string): ProjectManifest => {
+  // Blank lines are skipped but line numbers in errors refer to the file
+  const lines = text.split(/\r?\n/)
+    .map((content, idx) => ({ content: content.trim(), line: idx + 1 }))
+    .filter(l => l.content.length > 0);
+  const fail = (location: string, message: string): never => { throw new ManifestError([{ location, message }]); };
+  const lineOf = (idx: number) => lines[idx] ? `line ${lines[idx].line}` : `line ${(lines[lines.length - 1]?.line ?? 0) + 1}`;
+
+  if (lines.length === 0) fail('line 1', 'file is empty');
+  const numLanes = parseInt(lines[0].content);
+  if (isNaN(numLanes) || numLanes < 1) fail(lineOf(0), `expected the number of lanes, got '${lines[0].content}'`);
+  if (lines.length < numLanes + 3) {
+    fail(lineOf(lines.length), `expected ${numLanes} lane file names followed by the spatial and temporal extent, the file ends after ${lines.length} lines`);
+  }
+
+  const readExtent = (idx: number, what: string) => {
+    const value = parseFloat(lines[idx].content);
+    if (!isFinite(value) || value <= 0) fail(lineOf(idx), `expected the ${what}, got '${lines[idx].content}'`);
+    return value;
+  };
+  const extent: Extent = {
+    spatial: readExtent(numLanes + 1, 'spatial extent (m)'),
+    temporal: readExtent(numLanes + 2, 'temporal extent (min)')
+  };
+  const lanes = lines.slice(1, numLanes + 1).map(l => ({ file: l.content, extent }));
+  return { extent, lanes };
+};
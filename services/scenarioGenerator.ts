@@ -0,0 +1,286 @@
+import {
+  Extent,
+  PixelBuffer,
+  Point,
+  ScenarioModel,
+  ScenarioResult,
+  ScenarioSettings,
+  TrafficState,
+  Trajectory
+} from '../types';
+
+export const DEFAULT_SCENARIO_SETTINGS: ScenarioSettings = {
+  model: ScenarioModel.NEWELL,
+  duration: 15,
+  length: 640,
+  freeSpeed: 1500,   // 90 km/h
+  waveSpeed: -300,   // -18 km/h
+  jamDensity: 0.15,  // 150 veh/km
+  demand: 25,        // 1500 veh/h
+  randomArrivals: false,
+  seed: 1,
+  timeStep: 1 / 60,  // 1 s
+  bottleneck: { enabled: false, position: 400, length: 100, speed: 500 },
+  stopAndGo: { enabled: false, position: 550, start: 2, period: 4, stopDuration: 1 },
+};
+
+// Target cell length of the LWR grid (m)
+const LWR_CELL = 5;
+
+// Deterministic PRNG (mulberry32), so a seed always yields the same scenario
+const createRandom = (seed: number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Capacity of a triangular diagram with free speed v
+const capacity = (v: number, settings: ScenarioSettings) => {
+  const w = Math.abs(settings.waveSpeed);
+  return settings.jamDensity * v * w / (v + w);
+};
+
+const freeSpeedAt = (x: number, settings: ScenarioSettings) => {
+  const b = settings.bottleneck;
+  return b.enabled && x >= b.position && x < b.position + b.length ? b.speed : settings.freeSpeed;
+};
+
+const isStopped = (t: number, settings: ScenarioSettings) => {
+  const s = settings.stopAndGo;
+  return s.enabled && t >= s.start && (t - s.start) % s.period < s.stopDuration;
+};
+
+/**
+ * Equilibrium states implied by the settings: the upstream arrival state,
+ * and for each restriction the queue upstream of it and the discharge state
+ * downstream. These are the exact answers Edie measurements should recover.
+ */
+export const scenarioStates = (settings: ScenarioSettings): TrafficState[] => {
+  const { freeSpeed: vf, jamDensity: kj } = settings;
+  const w = Math.abs(settings.waveSpeed);
+  const qc = capacity(vf, settings);
+  const free = (label: string, q: number): TrafficState => ({ label, flow: q, density: q / vf, speed: vf });
+  const congested = (label: string, q: number): TrafficState => {
+    const k = kj - q / w;
+    return { label, flow: q, density: k, speed: k > 0 ? q / k : 0 };
+  };
+
+  const states: TrafficState[] = [free('Arrivals', Math.min(settings.demand, qc))];
+  states.push({ label: 'Capacity', flow: qc, density: qc / vf, speed: vf });
+  if (settings.bottleneck.enabled) {
+    const qb = capacity(settings.bottleneck.speed, settings);
+    if (settings.demand > qb) {
+      states.push(congested('Bottleneck queue', qb));
+      states.push({ label: 'Bottleneck', flow: qb, density: qb / settings.bottleneck.speed, speed: settings.bottleneck.speed });
+      states.push(free('Bottleneck discharge', qb));
+    }
+  }
+  if (settings.stopAndGo.enabled) {
+    states.push({ label: 'Stopped', flow: 0, density: kj, speed: 0 });
+    states.push(free('Stop discharge', qc));
+  }
+  return states;
+};
+
+// Arrival times at x = 0: uniform headways, or exponential ones shifted by the minimum headway
+const arrivalTimes = (settings: ScenarioSettings): number[] => {
+  const times: number[] = [];
+  if (settings.demand <= 0) return times;
+  const minHeadway = 1 / (Math.abs(settings.waveSpeed) * settings.jamDensity) + 1 / (settings.jamDensity * settings.freeSpeed);
+  const meanHeadway = 1 / settings.demand;
+  const random = createRandom(settings.seed);
+  let t = 0;
+  while (t < settings.duration) {
+    times.push(t);
+    t += settings.randomArrivals && meanHeadway > minHeadway
+      ? minHeadway - (meanHeadway - minHeadway) * Math.log(1 - random())
+      : meanHeadway;
+  }
+  return times;
+};
+
+/**
+ * Newell's simplified car-following model: every vehicle drives at the local
+ * free speed unless that would bring it closer than the leader's trajectory
+ * shifted by tau = 1/(|w|·kj) in time and delta = 1/kj in space.
+ */
+const simulateNewell = (settings: ScenarioSettings): Trajectory[] => {
+  const dt = settings.timeStep;
+  const tau = 1 / (Math.abs(settings.waveSpeed) * settings.jamDensity);
+  const delta = 1 / settings.jamDensity;
+  const steps = Math.ceil(settings.duration / dt);
+  // Vehicles keep driving past the road end so their followers stay constrained
+  const roadEnd = settings.length + delta + settings.freeSpeed * (tau + dt);
+  const stopPos = settings.stopAndGo.position;
+
+  const trajectories: Trajectory[] = [];
+  let leader: { start: number; positions: number[] } | null = null;
+
+  // Leader position at (fractional) step s; -Infinity before it entered, +Infinity once gone
+  const leaderAt = (s: number): number => {
+    if (!leader) return Infinity;
+    const i = s - leader.start;
+    if (i < 0) return -Infinity;
+    if (i >= leader.positions.length - 1) {
+      return leader.positions.length > 0 && leader.positions[leader.positions.length - 1] >= roadEnd ? Infinity : leader.positions[leader.positions.length - 1];
+    }
+    const i0 = Math.floor(i);
+    const f = i - i0;
+    return leader.positions[i0] * (1 - f) + leader.positions[i0 + 1] * f;
+  };
+
+  for (const arrival of arrivalTimes(settings)) {
+    let k = Math.ceil(arrival / dt - 1e-9);
+    // Entry waits until the leader is delta downstream and the stop line is open
+    while (k <= steps && (leaderAt(k - tau / dt) - delta < 0 || (isStopped(k * dt, settings) && stopPos <= 0))) k++;
+    if (k > steps) break;
+
+    const positions: number[] = [0];
+    let x = 0;
+    for (let s = k + 1; s <= steps && x < roadEnd; s++) {
+      let next = x + freeSpeedAt(x, settings) * dt;
+      next = Math.min(next, leaderAt(s - tau / dt) - delta);
+      if (x <= stopPos && isStopped(s * dt, settings)) next = Math.min(next, stopPos);
+      x = Math.max(x, next);
+      positions.push(x);
+    }
+    leader = { start: k, positions };
+
+    const points: Point[] = [];
+    positions.forEach((pos, i) => {
+      if (pos <= settings.length) points.push({ x: (k + i) * dt, y: pos });
+    });
+    if (points.length >= 2) trajectories.push({ id: trajectories.length + 1, points });
+  }
+  return trajectories;
+};
+
+/**
+ * LWR with a triangular diagram solved by the cell transmission model; vehicle
+ * n is the contour N(x, t) = n of the cumulative count. Arrivals that the first
+ * cell can't take wait in a queue at the entrance.
+ */
+const simulateLWR = (settings: ScenarioSettings): Trajectory[] => {
+  const { freeSpeed: vf, jamDensity: kj } = settings;
+  const w = Math.abs(settings.waveSpeed);
+  const cells = Math.max(2, Math.round(settings.length / LWR_CELL));
+  const dx = settings.length / cells;
+  // CFL: a vehicle at free speed crosses at most one cell per step
+  const dt = Math.min(settings.timeStep, dx / Math.max(vf, w));
+  const steps = Math.ceil(settings.duration / dt);
+  const outputEvery = Math.max(1, Math.round(settings.timeStep / dt));
+
+  const cellSpeed = Array.from({ length: cells }, (_, i) => freeSpeedAt((i + 0.5) * dx, settings));
+  const cellCapacity = cellSpeed.map(v => capacity(v, settings));
+  const stopBoundary = Math.round(settings.stopAndGo.position / dx);
+
+  const density = new Float64Array(cells);
+  const counts = new Float64Array(cells + 1); // Cumulative vehicles past each cell boundary
+  const samples: { t: number; counts: Float64Array }[] = [{ t: 0, counts: counts.slice() }];
+  let queue = 0;
+  let lastArrival = 0;
+
+  for (let s = 1; s <= steps; s++) {
+    const t = s * dt;
+    const arrivals = settings.demand * (Math.min(t, settings.duration) - lastArrival);
+    lastArrival = Math.min(t, settings.duration);
+    queue += arrivals;
+
+    const flows = new Float64Array(cells + 1);
+    const sendAt = (i: number) => Math.min(cellSpeed[i] * density[i], cellCapacity[i]);
+    const receiveAt = (i: number) => Math.min(cellCapacity[i], w * (kj - density[i]));
+    flows[0] = Math.min(queue / dt, receiveAt(0));
+    for (let b = 1; b < cells; b++) flows[b] = Math.min(sendAt(b - 1), receiveAt(b));
+    flows[cells] = sendAt(cells - 1);
+    if (isStopped(t, settings) && stopBoundary > 0 && stopBoundary < cells) flows[stopBoundary] = 0;
+
+    queue -= flows[0] * dt;
+    for (let i = 0; i < cells; i++) density[i] += (flows[i] - flows[i + 1]) * dt / dx;
+    for (let b = 0; b <= cells; b++) counts[b] += flows[b] * dt;
+    if (s % outputEvery === 0) samples.push({ t, counts: counts.slice() });
+  }
+
+  // Position of vehicle n in a counts snapshot (counts decrease downstream), null when off the road
+  const positionOf = (n: number, c: Float64Array): number | null => {
+    if (c[0] < n || c[cells] >= n) return null;
+    for (let b = 0; b < cells; b++) {
+      if (c[b + 1] < n) {
+        const span = c[b] - c[b + 1];
+        return (b + (span > 0 ? (c[b] - n) / span : 0)) * dx;
+      }
+    }
+    return null;
+  };
+
+  const total = Math.floor(samples[samples.length - 1].counts[0]);
+  const trajectories: Trajectory[] = [];
+  for (let n = 1; n <= total; n++) {
+    const points: Point[] = [];
+    for (const sample of samples) {
+      const y = positionOf(n - 0.5, sample.counts);
+      if (y !== null) points.push({ x: sample.t, y });
+      else if (points.length > 0) break;
+    }
+    if (points.length >= 2) trajectories.push({ id: trajectories.length + 1, points });
+  }
+  return trajectories;
+};
+
+export const generateScenario = (settings: ScenarioSettings): ScenarioResult => ({
+  trajectories: settings.model === ScenarioModel.LWR ? simulateLWR(settings) : simulateNewell(settings),
+  extent: { spatial: settings.length, temporal: settings.duration },
+  states: scenarioStates(settings),
+});
+
+/**
+ * Draws trajectories as black strokes on white, with the image edges at
+ * 0..extent. Noise adds the given share of random dark speckles.
+ */
+export const rasterizeTrajectories = (
+  trajectories: Trajectory[],
+  extent: Extent,
+  width: number,
+  height: number,
+  lineWidth: number,
+  noise: number,
+  seed = 1
+): PixelBuffer => {
+  const data = new Uint8ClampedArray(width * height * 4).fill(255);
+  const radius = Math.max(0.5, lineWidth / 2);
+  const r2 = radius * radius;
+  const ink = (x: number, y: number) => {
+    const idx = (y * width + x) * 4;
+    data[idx] = data[idx + 1] = data[idx + 2] = 0;
+  };
+  const stamp = (cx: number, cy: number) => {
+    for (let y = Math.floor(cy - radius); y <= Math.ceil(cy + radius); y++) {
+      if (y < 0 || y >= height) continue;
+      for (let x = Math.floor(cx - radius); x <= Math.ceil(cx + radius); x++) {
+        if (x < 0 || x >= width) continue;
+        if ((x + 0.5 - cx) ** 2 + (y + 0.5 - cy) ** 2 <= r2) ink(x, y);
+      }
+    }
+  };
+  const toPixel = (p: Point) => ({ x: p.x / extent.temporal * width, y: height - p.y / extent.spatial * height });
+
+  trajectories.forEach(traj => {
+    for (let i = 0; i < traj.points.length - 1; i++) {
+      const a = toPixel(traj.points[i]);
+      const b = toPixel(traj.points[i + 1]);
+      const steps = Math.max(1, Math.ceil(Math.hypot(b.x - a.x, b.y - a.y) / 0.5));
+      for (let s = 0; s <= steps; s++) stamp(a.x + (b.x - a.x) * s / steps, a.y + (b.y - a.y) * s / steps);
+    }
+  });
+
+  if (noise > 0) {
+    const random = createRandom(seed);
+    const speckles = Math.round(width * height * noise);
+    for (let i = 0; i < speckles; i++) ink(Math.floor(random() * width), Math.floor(random() * height));
+  }
+  return { data, width, height };
+};
@@ -0,0 +1,129 @@
+import { ProjectFile, RecentProjectEntry, SessionSnapshot } from '../types';
+import { migrateProject } from './projectFile';
+
+const DB_NAME = 'trajectory-explorer';
+const DB_VERSION = 1;
+const SESSION_STORE = 'session';
+const RECENT_STORE = 'recent';           // RecentProjectEntry, cheap to list
+const RECENT_DATA_STORE = 'recentData'; // Full project documents by entry id
+const SESSION_KEY = 'current';
+
+export const MAX_RECENT_PROJECTS = 8;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) db.createObjectStore(SESSION_STORE);
+        if (!db.objectStoreNames.contains(RECENT_STORE)) db.createObjectStore(RECENT_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(RECENT_DATA_STORE)) db.createObjectStore(RECENT_DATA_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // A failed open (private mode, blocked storage) may succeed on a later attempt
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Runs body in one transaction and resolves once it has committed
+const transact = async <T>(
+  stores: string[],
+  mode: IDBTransactionMode,
+  body: (tx: IDBTransaction) => Promise<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(stores, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+  const result = await body(tx);
+  await done;
+  return result;
+};
+
+export const saveSession = (snapshot: SessionSnapshot): Promise<void> =>
+  transact([SESSION_STORE], 'readwrite', async tx => {
+    tx.objectStore(SESSION_STORE).put(snapshot, SESSION_KEY);
+  });
+
+/**
+ * The last autosaved session, upgraded to the current project format.
+ * Unreadable snapshots are treated as absent.
+ */
+export const loadSession = async (): Promise<SessionSnapshot | null> => {
+  const raw = await transact([SESSION_STORE], 'readonly', tx =>
+    requestResult<SessionSnapshot | undefined>(tx.objectStore(SESSION_STORE).get(SESSION_KEY)));
+  if (!raw) return null;
+  try {
+    return { ...raw, project: migrateProject(raw.project) };
+  } catch {
+    return null;
+  }
+};
+
+export const clearSession = (): Promise<void> =>
+  transact([SESSION_STORE], 'readwrite', async tx => {
+    tx.objectStore(SESSION_STORE).delete(SESSION_KEY);
+  });
+
+export const listRecentProjects = async (): Promise<RecentProjectEntry[]> => {
+  const entries = await transact([RECENT_STORE], 'readonly', tx =>
+    requestResult<RecentProjectEntry[]>(tx.objectStore(RECENT_STORE).getAll()));
+  return entries.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+};
+
+/**
+ * Stores a project under its name (replacing an entry of the same name) and
+ * drops the oldest entries beyond MAX_RECENT_PROJECTS.
+ */
+export const addRecentProject = async (name: string, project: ProjectFile): Promise<RecentProjectEntry[]> => {
+  const existing = await listRecentProjects();
+  const entry: RecentProjectEntry = {
+    id: existing.find(e => e.name === name)?.id ?? `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    savedAt: new Date().toISOString(),
+    laneCount: project.lanes.length,
+    trajectoryCount: project.lanes.reduce((n, l) => n + l.data.trajectories.length, 0),
+  };
+  const kept = [entry, ...existing.filter(e => e.id !== entry.id)];
+  const dropped = kept.slice(MAX_RECENT_PROJECTS);
+
+  await transact([RECENT_STORE, RECENT_DATA_STORE], 'readwrite', async tx => {
+    tx.objectStore(RECENT_STORE).put(entry);
+    tx.objectStore(RECENT_DATA_STORE).put(project, entry.id);
+    dropped.forEach(e => {
+      tx.objectStore(RECENT_STORE).delete(e.id);
+      tx.objectStore(RECENT_DATA_STORE).delete(e.id);
+    });
+  });
+  return kept.slice(0, MAX_RECENT_PROJECTS);
+};
+
+export const loadRecentProject = async (id: string): Promise<ProjectFile | null> => {
+  const raw = await transact([RECENT_DATA_STORE], 'readonly', tx =>
+    requestResult<unknown>(tx.objectStore(RECENT_DATA_STORE).get(id)));
+  return raw ? migrateProject(raw) : null;
+};
+
+export const deleteRecentProject = (id: string): Promise<void> =>
+  transact([RECENT_STORE, RECENT_DATA_STORE], 'readwrite', async tx => {
+    tx.objectStore(RECENT_STORE).delete(id);
+    tx.objectStore(RECENT_DATA_STORE).delete(id);
+  });
@@ -0,0 +1,133 @@
+import { ColorClass, Extent, Point, Trajectory } from '../types';
+
+// Trajectories of one lane (or of the single loaded image) to export
+export interface LaneTrajectories {
+  lane: string;
+  trajectories: Trajectory[];
+  colorClasses: ColorClass[];
+}
+
+export interface Kinematics {
+  speed: number[];        // m/min
+  acceleration: number[]; // m/min²
+}
+
+const toSpeedKmh = (u: number) => (u * 60) / 1000;
+const toAccelerationMs2 = (a: number) => a / 3600;
+
+// Derivative of values over time: central differences inside, one-sided at the ends
+const differentiate = (times: number[], values: number[]): number[] => values.map((_, i) => {
+  const lo = Math.max(0, i - 1);
+  const hi = Math.min(values.length - 1, i + 1);
+  const dt = times[hi] - times[lo];
+  return dt > 0 ? (values[hi] - values[lo]) / dt : 0;
+});
+
+/**
+ * Speed and acceleration at every point of a trajectory, in world units.
+ */
+export const estimateKinematics = (points: Point[]): Kinematics => {
+  if (points.length < 2) return { speed: points.map(() => 0), acceleration: points.map(() => 0) };
+  const times = points.map(p => p.x);
+  const speed = differentiate(times, points.map(p => p.y));
+  return { speed, acceleration: differentiate(times, speed) };
+};
+
+const classLabel = (classes: ColorClass[], classId?: number) =>
+  classId === undefined ? '' : classes.find(c => c.id === classId)?.label ?? String(classId);
+
+// Quotes fields that would break the CSV row
+export const csvField = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * One row per trajectory point with derived speed (km/h) and acceleration (m/s²).
+ */
+export const buildTrajectoryPointsCSV = (lanes: LaneTrajectories[]): string => {
+  const headers = ["Lane", "Trajectory", "Class", "Time (min)", "Position (m)", "Speed (km/h)", "Acceleration (m/s2)"];
+  const rows: string[] = [];
+  lanes.forEach(({ lane, trajectories, colorClasses }) => {
+    trajectories.forEach(traj => {
+      const { speed, acceleration } = estimateKinematics(traj.points);
+      const cls = classLabel(colorClasses, traj.classId);
+      traj.points.forEach((p, i) => {
+        rows.push([
+          csvField(lane),
+          traj.id,
+          csvField(cls),
+          p.x.toFixed(5),
+          p.y.toFixed(3),
+          toSpeedKmh(speed[i]).toFixed(2),
+          toAccelerationMs2(acceleration[i]).toFixed(3)
+        ].join(","));
+      });
+    });
+  });
+  return [headers.join(","), ...rows].join("\n");
+};
+
+/**
+ * One row per vehicle: entry/exit in time and space, distance and space-mean speed.
+ */
+export const buildTrajectorySummaryCSV = (lanes: LaneTrajectories[]): string => {
+  const headers = ["Lane", "Trajectory", "Class", "Points", "Start (min)", "End (min)", "Duration (min)", "Entry (m)", "Exit (m)", "Distance (m)", "Mean Speed (km/h)", "Length (m)"];
+  const rows: string[] = [];
+  lanes.forEach(({ lane, trajectories, colorClasses }) => {
+    trajectories.forEach(traj => {
+      if (traj.points.length === 0) return;
+      const first = traj.points[0];
+      const last = traj.points[traj.points.length - 1];
+      const duration = last.x - first.x;
+      const distance = last.y - first.y;
+      rows.push([
+        csvField(lane),
+        traj.id,
+        csvField(classLabel(colorClasses, traj.classId)),
+        traj.points.length,
+        first.x.toFixed(4),
+        last.x.toFixed(4),
+        duration.toFixed(4),
+        first.y.toFixed(2),
+        last.y.toFixed(2),
+        distance.toFixed(2),
+        duration > 0 ? toSpeedKmh(distance / duration).toFixed(2) : "",
+        traj.length !== undefined ? traj.length.toFixed(2) : ""
+      ].join(","));
+    });
+  });
+  return [headers.join(","), ...rows].join("\n");
+};
+
+/**
+ * GeoJSON-style FeatureCollection in the time-space plane: every trajectory is
+ * a LineString of [time (min), position (m)] coordinates.
+ */
+export const buildTrajectoryJSON = (lanes: LaneTrajectories[], extent: Extent): string => {
+  const features = lanes.flatMap(({ lane, trajectories, colorClasses }) => trajectories.map(traj => {
+    const { speed } = estimateKinematics(traj.points);
+    return {
+      type: 'Feature',
+      geometry: {
+        type: 'LineString',
+        coordinates: traj.points.map(p => [+p.x.toFixed(5), +p.y.toFixed(3)])
+      },
+      properties: {
+        lane,
+        id: traj.id,
+        class: traj.classId === undefined ? null : classLabel(colorClasses, traj.classId),
+        length: traj.length ?? null,
+        speedKmh: speed.map(u => +toSpeedKmh(u).toFixed(2))
+      }
+    };
+  }));
+
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    properties: {
+      axes: { x: 'time', y: 'position' },
+      units: { time: 'min', position: 'm', speed: 'km/h' },
+      extent,
+      lanes: lanes.map(l => l.lane)
+    },
+    features
+  }, null, 2);
+};
@@ -0,0 +1,233 @@
+import {
+  ColumnMapping,
+  DistanceUnit,
+  Extent,
+  Point,
+  TimeUnit,
+  Trajectory,
+  TrajectoryImportSettings
+} from '../types';
+
+export interface DataTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface TrajectoryImportResult {
+  trajectories: Trajectory[];
+  extent: Extent;
+  origin: Point;       // Subtracted from every point (min, m)
+  skippedRows: number; // Unparseable or filtered out
+}
+
+export const DEFAULT_TRAJECTORY_IMPORT_SETTINGS: Omit<TrajectoryImportSettings, 'mapping'> = {
+  timeUnit: TimeUnit.SECONDS,
+  frameRate: 10,
+  distanceUnit: DistanceUnit.METRES,
+  lanes: null,
+  maxTimeGap: 0.1 // 6 s
+};
+
+const METRES_PER_UNIT: Record<DistanceUnit, number> = {
+  [DistanceUnit.METRES]: 1,
+  [DistanceUnit.FEET]: 0.3048,
+  [DistanceUnit.KILOMETRES]: 1000,
+};
+
+// Known header names, most specific first (NGSIM, highD and generic exports)
+const HEADER_CANDIDATES: Record<keyof ColumnMapping, string[]> = {
+  vehicleId: ['vehicle_id', 'vehicleid', 'trackid', 'track_id', 'id'],
+  time: ['global_time', 'frame_id', 'frame', 'time', 't', 'timestamp'],
+  position: ['local_y', 'position', 'pos', 'x', 'y', 'distance'],
+  lane: ['lane_id', 'laneid', 'lane'],
+  length: ['v_length', 'length', 'width'], // highD stores the vehicle length as "width"
+};
+
+const normaliseHeader = (header: string) => header.trim().toLowerCase().replace(/\s+/g, '_');
+
+const detectDelimiter = (line: string): string => {
+  const candidates = ['\t', ';', ','];
+  const counts = candidates.map(d => line.split(d).length);
+  const best = counts.indexOf(Math.max(...counts));
+  return counts[best] > 1 ? candidates[best] : ',';
+};
+
+/**
+ * Splits a CSV/TSV text into header and rows. The delimiter (tab, semicolon
+ * or comma) is taken from the header line; quoted fields are unwrapped but
+ * may not contain the delimiter.
+ */
+export const parseTable = (text: string): DataTable => {
+  const lines = text.split(/\r?\n/).filter(l => l.trim().length > 0);
+  if (lines.length === 0) return { headers: [], rows: [] };
+  const delimiter = detectDelimiter(lines[0]);
+  const split = (line: string) => line.split(delimiter).map(f => f.trim().replace(/^"(.*)"$/, '$1'));
+  return { headers: split(lines[0]), rows: lines.slice(1).map(split) };
+};
+
+/**
+ * Picks a column per field from the header names; the time and distance
+ * units follow from the dataset the headers identify.
+ */
+export const guessImportSettings = (headers: string[]): TrajectoryImportSettings => {
+  const normalised = headers.map(normaliseHeader);
+  const used = new Set<number>();
+  const find = (field: keyof ColumnMapping): string | null => {
+    for (const candidate of HEADER_CANDIDATES[field]) {
+      const idx = normalised.indexOf(candidate);
+      if (idx !== -1 && !used.has(idx)) {
+        used.add(idx);
+        return headers[idx];
+      }
+    }
+    return null;
+  };
+
+  const vehicleId = find('vehicleId') ?? headers[0] ?? '';
+  const time = find('time') ?? headers[1] ?? '';
+  const position = find('position') ?? headers[2] ?? '';
+  const mapping: ColumnMapping = { vehicleId, time, position, lane: find('lane'), length: find('length') };
+
+  const timeKey = normaliseHeader(time);
+  const isNgsim = normalised.includes('local_y');
+  let timeUnit = DEFAULT_TRAJECTORY_IMPORT_SETTINGS.timeUnit;
+  let frameRate = DEFAULT_TRAJECTORY_IMPORT_SETTINGS.frameRate;
+  if (timeKey === 'global_time') timeUnit = TimeUnit.MILLISECONDS;
+  else if (timeKey === 'frame_id') timeUnit = TimeUnit.FRAMES;
+  else if (timeKey === 'frame') { timeUnit = TimeUnit.FRAMES; frameRate = 25; }
+
+  return {
+    ...DEFAULT_TRAJECTORY_IMPORT_SETTINGS,
+    mapping,
+    timeUnit,
+    frameRate,
+    distanceUnit: isNgsim ? DistanceUnit.FEET : DistanceUnit.METRES
+  };
+};
+
+/**
+ * Distinct values of the lane column, numerically sorted.
+ */
+export const listLanes = (table: DataTable, laneColumn: string | null): string[] => {
+  if (!laneColumn) return [];
+  const idx = table.headers.indexOf(laneColumn);
+  if (idx === -1) return [];
+  const lanes = new Set<string>();
+  table.rows.forEach(row => { if (row[idx] !== undefined && row[idx] !== '') lanes.add(row[idx]); });
+  return Array.from(lanes).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+};
+
+const toMinutes = (value: number, settings: TrajectoryImportSettings): number => {
+  switch (settings.timeUnit) {
+    case TimeUnit.MILLISECONDS: return value / 60000;
+    case TimeUnit.SECONDS: return value / 60;
+    case TimeUnit.FRAMES: return value / (settings.frameRate * 60);
+    default: return value;
+  }
+};
+
+/**
+ * Builds trajectories from a table: rows are grouped by vehicle, converted
+ * to minutes/metres and ordered by time. A vehicle's record is split where it
+ * leaves the kept lanes or pauses longer than maxTimeGap, so lane changes out
+ * of the filter become separate trajectories. Coordinates are shifted so the
+ * earliest time and the smallest position are 0, giving the extent; data
+ * without a spread in both time and position is rejected.
+ */
+export const importTrajectories = (table: DataTable, settings: TrajectoryImportSettings): TrajectoryImportResult => {
+  const column = (name: string | null) => name ? table.headers.indexOf(name) : -1;
+  const idCol = column(settings.mapping.vehicleId);
+  const timeCol = column(settings.mapping.time);
+  const posCol = column(settings.mapping.position);
+  const laneCol = column(settings.mapping.lane);
+  const lengthCol = column(settings.mapping.length);
+  if (idCol === -1 || timeCol === -1 || posCol === -1) {
+    throw new Error('Vehicle id, time and position columns are required');
+  }
+
+  const keptLanes = settings.lanes && laneCol !== -1 ? new Set(settings.lanes) : null;
+  const metresPerUnit = METRES_PER_UNIT[settings.distanceUnit];
+  // breaks: times of the vehicle's rows in lanes that were filtered out
+  const vehicles = new Map<string, { points: Point[]; lengths: number[]; breaks: number[] }>();
+  let skippedRows = 0;
+  // Epoch timestamps lose precision once converted to minutes, so times are taken relative to the first row
+  let timeRef: number | null = null;
+
+  table.rows.forEach(row => {
+    const id = row[idCol];
+    const t = parseFloat(row[timeCol]);
+    const pos = parseFloat(row[posCol]);
+    if (!id || !isFinite(t) || !isFinite(pos)) { skippedRows++; return; }
+
+    let vehicle = vehicles.get(id);
+    if (!vehicle) {
+      vehicle = { points: [], lengths: [], breaks: [] };
+      vehicles.set(id, vehicle);
+    }
+    if (timeRef === null) timeRef = t;
+    if (keptLanes && !keptLanes.has(row[laneCol])) {
+      vehicle.breaks.push(toMinutes(t - timeRef, settings));
+      skippedRows++;
+      return;
+    }
+    vehicle.points.push({ x: toMinutes(t - timeRef, settings), y: pos * metresPerUnit });
+    const length = lengthCol !== -1 ? parseFloat(row[lengthCol]) : NaN;
+    if (isFinite(length)) vehicle.lengths.push(length * metresPerUnit);
+  });
+
+  const pieces: { points: Point[]; length?: number }[] = [];
+  vehicles.forEach(vehicle => {
+    const points = vehicle.points.sort((a, b) => a.x - b.x);
+    const breaks = vehicle.breaks.sort((a, b) => a - b);
+    let nextBreak = 0;
+    const length = vehicle.lengths.length > 0
+      ? vehicle.lengths.reduce((s, l) => s + l, 0) / vehicle.lengths.length
+      : undefined;
+    let current: Point[] = [];
+    points.forEach(p => {
+      const last = current[current.length - 1];
+      if (last && p.x <= last.x) return; // Duplicate timestamp
+      // The vehicle was in another lane since the previous kept row
+      let leftLanes = false;
+      while (nextBreak < breaks.length && breaks[nextBreak] < p.x) {
+        if (last && breaks[nextBreak] > last.x) leftLanes = true;
+        nextBreak++;
+      }
+      if (last && (leftLanes || p.x - last.x > settings.maxTimeGap)) {
+        pieces.push({ points: current, length });
+        current = [];
+      }
+      current.push(p);
+    });
+    pieces.push({ points: current, length });
+  });
+
+  const kept = pieces.filter(piece => piece.points.length >= 2);
+  if (kept.length === 0) {
+    return { trajectories: [], extent: { spatial: 0, temporal: 0 }, origin: { x: 0, y: 0 }, skippedRows };
+  }
+
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+  kept.forEach(piece => piece.points.forEach(p => {
+    minX = Math.min(minX, p.x); maxX = Math.max(maxX, p.x);
+    minY = Math.min(minY, p.y); maxY = Math.max(maxY, p.y);
+  }));
+
+  // A worksurface needs both spans, e.g. a fully stopped queue has no spatial one
+  if (!(maxY - minY > 0) || !(maxX - minX > 0)) {
+    throw new Error(`Trajectories span ${(maxY - minY).toFixed(2)} m over ${((maxX - minX) * 60).toFixed(2)} s; both must be greater than zero`);
+  }
+
+  const trajectories: Trajectory[] = kept.map((piece, idx) => ({
+    id: idx + 1,
+    points: piece.points.map(p => ({ x: p.x - minX, y: p.y - minY })),
+    ...(piece.length !== undefined ? { length: piece.length } : {})
+  }));
+
+  return {
+    trajectories,
+    extent: { spatial: maxY - minY, temporal: maxX - minX },
+    origin: { x: minX + toMinutes(timeRef ?? 0, settings), y: minY },
+    skippedRows
+  };
+};
@@ -0,0 +1,104 @@
+import { Point, Trajectory, TravelDirection } from '../types';
+import { getTrajectoryIntersectionWithLine, getTravelDirection } from './measurements';
+import { estimateKinematics } from './trajectoryExporter';
+
+// Below this speed (m/min) a vehicle counts as stopped ...
+export const STOP_SPEED = 83; // 5 km/h
+// ... and it moves off again above this one, so jitter around STOP_SPEED is one stop
+const MOVE_OFF_SPEED = 2 * STOP_SPEED;
+
+export interface KinematicSample {
+  t: number;            // min
+  position: number;     // m
+  speed: number;        // m/min, in the direction of travel
+  acceleration: number; // m/min²
+}
+
+export interface VehicleProfile {
+  samples: KinematicSample[];
+  travelTime: number;   // min
+  distance: number;     // m
+  averageSpeed: number; // m/min
+  stops: number;
+  stoppedTime: number;  // min
+}
+
+// Vehicle ahead of or behind the inspected one at a given time
+export interface Neighbour {
+  trajectoryId: number;
+  at: Point;
+  spacing: number;        // m, front to front
+  headway: number | null; // min between passing the same position, null if not observed
+}
+
+export interface Neighbours {
+  at: Point;
+  leader: Neighbour | null;
+  follower: Neighbour | null;
+}
+
+/**
+ * Position, speed and acceleration over time with travel statistics. A stop
+ * lasts from the first segment slower than STOP_SPEED until the vehicle
+ * moves off again.
+ */
+export const profileVehicle = (traj: Trajectory, direction: number): VehicleProfile => {
+  const { speed, acceleration } = estimateKinematics(traj.points);
+  const samples = traj.points.map((p, i) => ({ t: p.x, position: p.y, speed: direction * speed[i], acceleration: direction * acceleration[i] }));
+
+  let stops = 0, stoppedTime = 0, stopped = false;
+  for (let i = 0; i < traj.points.length - 1; i++) {
+    const a = traj.points[i], b = traj.points[i+1];
+    const dt = b.x - a.x;
+    if (dt <= 0) continue;
+    const v = direction * (b.y - a.y) / dt;
+    if (!stopped && v < STOP_SPEED) {
+      stopped = true;
+      stops++;
+    } else if (stopped && v > MOVE_OFF_SPEED) {
+      stopped = false;
+    }
+    if (stopped) stoppedTime += dt;
+  }
+
+  const first = traj.points[0], last = traj.points[traj.points.length - 1];
+  const travelTime = traj.points.length > 1 ? last.x - first.x : 0;
+  const distance = traj.points.length > 1 ? Math.abs(last.y - first.y) : 0;
+  return { samples, travelTime, distance, averageSpeed: travelTime > 0 ? distance / travelTime : 0, stops, stoppedTime };
+};
+
+// Interpolated position at time t, null outside the observed range
+export const getPositionAt = (traj: Trajectory, t: number): number | null => {
+  for (let i = 0; i < traj.points.length - 1; i++) {
+    const a = traj.points[i], b = traj.points[i+1];
+    if (t < a.x || t > b.x) continue;
+    return b.x > a.x ? a.y + (b.y - a.y) * (t - a.x) / (b.x - a.x) : a.y;
+  }
+  return null;
+};
+
+/**
+ * Closest observed vehicles ahead and behind at time t. Headways compare
+ * the times both vehicles pass the inspected vehicle's current position.
+ */
+export const getNeighbours = (trajectories: Trajectory[], traj: Trajectory, t: number, declared?: TravelDirection): Neighbours | null => {
+  const y = getPositionAt(traj, t);
+  if (y === null) return null;
+  const direction = getTravelDirection(trajectories, declared);
+
+  let leader: Neighbour | null = null, follower: Neighbour | null = null;
+  trajectories.forEach(other => {
+    if (other.id === traj.id) return;
+    const position = getPositionAt(other, t);
+    if (position === null) return;
+    const spacing = direction * (position - y);
+    if (spacing === 0) return;
+    const passed = getTrajectoryIntersectionWithLine(other, 0, y)?.x;
+    if (spacing > 0 && (!leader || spacing < leader.spacing)) {
+      leader = { trajectoryId: other.id, at: { x: t, y: position }, spacing, headway: passed !== undefined ? t - passed : null };
+    } else if (spacing < 0 && (!follower || -spacing < follower.spacing)) {
+      follower = { trajectoryId: other.id, at: { x: t, y: position }, spacing: -spacing, headway: passed !== undefined ? passed - t : null };
+    }
+  });
+  return { at: { x: t, y }, leader, follower };
+};
@@ -0,0 +1,111 @@
+import { Point, ShockwaveFront, Trajectory, TravelDirection, WaveEstimate } from '../types';
+import { getTravelDirection } from './measurements';
+
+// Speeds are measured over windows of at least this duration (min)
+const SPEED_WINDOW = 0.05;
+// A vehicle brakes when its speed falls below SLOW_RATIO of the free-flow
+// speed after having reached FAST_RATIO of it
+const FAST_RATIO = 0.7;
+const SLOW_RATIO = 0.4;
+// Quantile of all speeds taken as the free-flow speed
+const FREE_SPEED_QUANTILE = 0.9;
+// Braking of the follower is looked for within this time (min) ...
+const MAX_LINK_GAP = 0.15;
+// ... at a wave speed within this range (m/min, against the traffic)
+const MIN_WAVE_SPEED = 83;  // 5 km/h
+const MAX_WAVE_SPEED = 667; // 40 km/h
+const MIN_FRONT_EVENTS = 4;
+
+interface BrakingEvent extends Point {
+  trajectoryId: number;
+}
+
+const quantile = (sorted: number[], q: number) => {
+  if (sorted.length === 0) return 0;
+  const pos = (sorted.length - 1) * q;
+  const i = Math.floor(pos);
+  return i + 1 < sorted.length ? sorted[i] + (sorted[i + 1] - sorted[i]) * (pos - i) : sorted[i];
+};
+
+// Speeds in the direction of travel, each over a window starting at a point
+const windowSpeeds = (traj: Trajectory, direction: number): { at: Point; speed: number }[] => {
+  const samples: { at: Point; speed: number }[] = [];
+  let j = 0;
+  for (let i = 0; i < traj.points.length - 1; i++) {
+    const a = traj.points[i];
+    j = Math.max(j, i + 1);
+    while (j < traj.points.length - 1 && traj.points[j].x - a.x < SPEED_WINDOW) j++;
+    const b = traj.points[j];
+    if (b.x - a.x <= 0) continue;
+    samples.push({ at: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 }, speed: direction * (b.y - a.y) / (b.x - a.x) });
+  }
+  return samples;
+};
+
+// Least-squares line y = c + w t through the events
+const fitFront = (events: Point[]): ShockwaveFront => {
+  const n = events.length;
+  const mt = events.reduce((s, p) => s + p.x, 0) / n;
+  const my = events.reduce((s, p) => s + p.y, 0) / n;
+  const stt = events.reduce((s, p) => s + (p.x - mt) ** 2, 0);
+  const sty = events.reduce((s, p) => s + (p.x - mt) * (p.y - my), 0);
+  const speed = stt > 0 ? sty / stt : 0;
+  const at = (t: number) => ({ x: t, y: my + speed * (t - mt) });
+  return { speed, start: at(events[0].x), end: at(events[n - 1].x), events };
+};
+
+/**
+ * Detects stop-and-go deceleration fronts: braking points of the vehicles,
+ * chained from each vehicle to the next one braking shortly after it further
+ * upstream, with a line fitted through every chain of MIN_FRONT_EVENTS or more.
+ */
+export const estimateWaves = (trajectories: Trajectory[], declared?: TravelDirection): WaveEstimate => {
+  const direction = getTravelDirection(trajectories, declared);
+  const perTrajectory = trajectories.map(t => ({ id: t.id, samples: windowSpeeds(t, direction) }));
+  const speeds = perTrajectory.flatMap(t => t.samples.map(s => s.speed)).sort((a, b) => a - b);
+  const freeSpeed = quantile(speeds, FREE_SPEED_QUANTILE);
+
+  const events: BrakingEvent[] = [];
+  perTrajectory.forEach(({ id, samples }) => {
+    let armed = false;
+    samples.forEach(s => {
+      if (s.speed >= FAST_RATIO * freeSpeed) armed = true;
+      else if (armed && s.speed < SLOW_RATIO * freeSpeed) {
+        events.push({ ...s.at, trajectoryId: id });
+        armed = false;
+      }
+    });
+  });
+  events.sort((a, b) => a.x - b.x);
+
+  // Each event links to the earliest braking of another vehicle upstream at a plausible wave speed
+  const next = new Map<BrakingEvent, BrakingEvent>();
+  const linked = new Set<BrakingEvent>();
+  events.forEach((e, i) => {
+    for (let k = i + 1; k < events.length && events[k].x - e.x <= MAX_LINK_GAP; k++) {
+      const f = events[k];
+      if (f.trajectoryId === e.trajectoryId || linked.has(f) || f.x <= e.x) continue;
+      const w = -direction * (f.y - e.y) / (f.x - e.x);
+      if (w < MIN_WAVE_SPEED || w > MAX_WAVE_SPEED) continue;
+      next.set(e, f);
+      linked.add(f);
+      break;
+    }
+  });
+
+  const fronts: ShockwaveFront[] = [];
+  events.filter(e => !linked.has(e)).forEach(head => {
+    const chain: Point[] = [];
+    for (let e: BrakingEvent | undefined = head; e; e = next.get(e)) chain.push({ x: e.x, y: e.y });
+    if (chain.length >= MIN_FRONT_EVENTS) fronts.push(fitFront(chain));
+  });
+
+  const waveSpeeds = fronts.map(f => f.speed).sort((a, b) => a - b);
+  return {
+    fronts,
+    events: events.length,
+    freeSpeed: direction * freeSpeed,
+    median: quantile(waveSpeeds, 0.5),
+    quartiles: [quantile(waveSpeeds, 0.25), quantile(waveSpeeds, 0.75)]
+  };
+};
@@ -13,13 +13,21 @@ export interface Extent {
 export interface Trajectory {
   id: number;
   points: Point[];
+  classId?: number; // Colour class the trajectory was traced from
+  length?: number;  // Vehicle length (m), known for imported datasets
 }
 
 export enum AnalysisMode {
   LINE = 'LINE',
   POLYGON = 'POLYGON',
   PLATOON = 'PLATOON',
-  LOOP_DETECTOR = 'LOOP_DETECTOR'
+  LOOP_DETECTOR = 'LOOP_DETECTOR',
+  GRID = 'GRID', // Edie cells tiling the whole diagram
+  MOVING_OBSERVER = 'MOVING_OBSERVER', // Wardrop–Charlesworth method from two observer passes
+  CUMULATIVE = 'CUMULATIVE', // Cumulative counts at cross-sections, produces no results
+  POINT_DETECTOR = 'POINT_DETECTOR', // Inductive loop at a fixed position, aggregated per interval
+  INSPECT = 'INSPECT', // Per-vehicle kinematics, produces no results
+  EDIT = 'EDIT' // Manual trajectory corrections, produces no results
 }
 
 export interface AnalysisVisual {
@@ -27,6 +35,7 @@ export interface AnalysisVisual {
   points: Point[];
   intersections?: Point[];
   anchor?: Point;
+  paths?: Point[][]; // Observer passes (MOVING_OBSERVER)
 }
 
 export interface AnalysisResult {
@@ -41,4 +50,422 @@ export interface AnalysisResult {
   waveSpeed?: number;
   experimentId: number;
   batchId?: number;
+  classId?: number; // Set when measured on a single colour class
+  stale?: boolean;  // Trajectories under it were edited after it was measured
+  edie?: { flow: number; density: number; speed: number }; // MOVING_OBSERVER, POINT_DETECTOR: Edie's values for comparison
+  occupancy?: number;      // POINT_DETECTOR: share of the interval the loop was occupied
+  timeMeanSpeed?: number;  // POINT_DETECTOR (m/min); speed holds the harmonic mean
+  partial?: boolean;       // POINT_DETECTOR: trailing interval shorter than the others
+  passCounts?: [number, number]; // MOVING_OBSERVER: overtaking minus overtaken on each pass
+}
+
+export enum BinarizationMethod {
+  FIXED = 'FIXED',       // Fixed distance from the background colour
+  OTSU = 'OTSU',         // Global threshold picked by Otsu's method
+  ADAPTIVE = 'ADAPTIVE'  // Local mean threshold over a sliding window
+}
+
+export enum BackgroundModel {
+  WHITE = 'WHITE',  // Classic plots: dark lines on white paper
+  AUTO = 'AUTO',    // Dominant colour of the image (grey scans, tinted exports)
+  DARK = 'DARK'     // Inverted: bright lines on a black/dark theme
+}
+
+export interface BinarizationSettings {
+  method: BinarizationMethod;
+  background: BackgroundModel;
+  threshold: number;      // FIXED: Manhattan RGB distance (0-765)
+  windowSize: number;     // ADAPTIVE: side of the local window in px
+  adaptiveOffset: number; // ADAPTIVE: margin above the local mean
+}
+
+export enum ColorClassMode {
+  NONE = 'NONE',     // All foreground pixels form a single class
+  AUTO = 'AUTO',     // Palette detected from the foreground pixels
+  MANUAL = 'MANUAL'  // User-picked swatches
+}
+
+export interface ColorClass {
+  id: number;
+  label: string;
+  color: string; // Hex #rrggbb
+}
+
+export interface TracingSettings {
+  maxGap: number;        // Columns a trace may predict across (gaps, occlusions)
+  tolerance: number;     // Allowed deviation from the predicted position in px
+  headingWindow: number; // Recent points used to estimate the slope
+}
+
+export interface CentrelineSettings {
+  thinning: boolean; // Zhang-Suen skeleton before tracing (strokes >= 3 px)
+  subPixel: boolean; // Intensity-weighted refinement of each point
+  radius: number;    // Half-width of the refinement profile in px
+}
+
+export enum SmoothingFilter {
+  NONE = 'NONE',
+  MOVING_AVERAGE = 'MOVING_AVERAGE',
+  SAVITZKY_GOLAY = 'SAVITZKY_GOLAY'
+}
+
+// Applied to extracted trajectories in world units (min, m)
+export interface PostProcessingSettings {
+  stitch: boolean;        // Join fragments that continue each other
+  maxTimeGap: number;     // Max gap between a fragment's end and the next start (min)
+  maxSpaceGap: number;    // Max deviation from the extrapolated position (m)
+  maxSlopeDiff: number;   // Max speed difference between the joined ends (m/min)
+  monotonicTime: boolean; // Drop points that step back in time
+  smoothing: SmoothingFilter;
+  smoothingWindow: number; // Points per filter window (odd)
+  resample: boolean;
+  timeStep: number;        // Uniform resampling step (min)
+}
+
+export interface ExtractionSettings {
+  binarization: BinarizationSettings;
+  tracing: TracingSettings;
+  centreline: CentrelineSettings;
+  colorMode: ColorClassMode;
+  colorClasses: ColorClass[]; // MANUAL swatches
+  paletteSize: number;        // AUTO: number of colours to detect
+  colorTolerance: number;     // Max RGB distance from a class colour
+  postProcessing: PostProcessingSettings;
+}
+
+// Raw RGBA pixels; ImageData satisfies it, so does a decoded image buffer
+export interface PixelBuffer {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface PostProcessingReport {
+  trajectoriesBefore: number;
+  trajectoriesAfter: number;
+  pointsBefore: number;
+  pointsAfter: number;
+  joins: number;
+  droppedPoints: number; // Removed by the monotonic time check
+}
+
+export enum DiagnosticIssue {
+  BACKWARD = 'BACKWARD',   // Segment going back in time
+  OVERSPEED = 'OVERSPEED', // Implausibly fast stretch
+  CROSSING = 'CROSSING',   // Two trajectories of one class cross (suspected mis-linking)
+  FRAGMENT = 'FRAGMENT'    // Starts or ends inside the domain instead of at its border
+}
+
+export interface TrajectoryIssue {
+  kind: DiagnosticIssue;
+  trajectoryIds: number[];
+  at: Point;      // Where to look on the canvas
+  detail: string;
+}
+
+export interface ExtractionDiagnostics {
+  trajectoryCount: number;
+  durationHistogram: { label: string; count: number }[];
+  medianDuration: number; // min
+  timeCoverage: number;   // Share of the time range covered by at least one trajectory
+  spaceCoverage: number;  // Share of the space range covered by at least one trajectory
+  domainCoverage: number; // Share of time-space grid cells visited
+  fragments: number;
+  issues: TrajectoryIssue[];
+  foregroundPixels: number;
+  orphanPixels: number;   // Foreground not explained by any trajectory
+}
+
+export interface ExtractionOutput {
+  trajectories: Trajectory[];
+  colorClasses: ColorClass[]; // Classes actually traced (resolved palette in AUTO mode)
+  postProcessing?: PostProcessingReport;
+  pixelStats?: { foregroundPixels: number; orphanPixels: number };
+  diagnostics?: ExtractionDiagnostics;
+}
+
+// A clicked image position (pixels along the axis) and the world value typed for it
+export interface AxisReference {
+  pixel: number;
+  value: number;
+}
+
+// Reference points per axis: time runs along image x (min), space along image y (m).
+// An axis with fewer than two distinct references falls back to the image edges = 0..extent.
+export interface AxisCalibration {
+  time: AxisReference[];
+  space: AxisReference[];
+}
+
+// Extraction regions in image pixels: only ink inside the ROI (whole image when null)
+// and outside every exclusion polygon is traced
+export interface ExtractionMask {
+  roi: Point[] | null;
+  exclusions: Point[][];
+}
+
+export enum TimeUnit {
+  MILLISECONDS = 'ms',
+  SECONDS = 's',
+  MINUTES = 'min',
+  FRAMES = 'frame' // Frame numbers, converted with the frame rate
+}
+
+export enum DistanceUnit {
+  METRES = 'm',
+  FEET = 'ft',
+  KILOMETRES = 'km'
+}
+
+// Column headers of a trajectory table; optional columns are null when absent
+export interface ColumnMapping {
+  vehicleId: string;
+  time: string;
+  position: string;
+  lane: string | null;
+  length: string | null;
+}
+
+export interface TrajectoryImportSettings {
+  mapping: ColumnMapping;
+  timeUnit: TimeUnit;
+  frameRate: number;        // Frames per second (FRAMES only)
+  distanceUnit: DistanceUnit;
+  lanes: string[] | null;   // Lane values to keep, all when null
+  maxTimeGap: number;       // Split a vehicle's record at gaps longer than this (min)
+}
+
+// Everything measured on one lane; kept per lane while switching and saved in project files
+export interface LaneAnalysisData {
+  trajectories: Trajectory[];
+  results: AnalysisResult[];
+  visuals: AnalysisVisual[];
+  colorClasses?: ColorClass[];
+  calibration?: AxisCalibration | null;
+  mask?: ExtractionMask | null;
+  diagnostics?: ExtractionDiagnostics | null;
+}
+
+export enum TravelDirection {
+  INCREASING = 'INCREASING', // Vehicles move towards larger positions
+  DECREASING = 'DECREASING'
+}
+
+// Per-lane settings from a project manifest
+export interface LaneMetadata {
+  label?: string;
+  extent?: Extent;            // Overrides the project extent
+  direction?: TravelDirection;
+  startTime?: string;         // Clock time at t = 0 ("HH:MM" or "HH:MM:SS")
+}
+
+export interface LaneSource extends LaneMetadata {
+  name: string; // Image file name
+  url: string;
+}
+
+export interface ProjectLane {
+  name: string;
+  image: string | null; // Embedded data URL; null when the image is referenced by name
+  data: LaneAnalysisData;
+  meta?: LaneMetadata;
+}
+
+export enum GridShape {
+  RECTANGLE = 'RECTANGLE', // Δt x Δx cells
+  WAVE = 'WAVE'            // Parallelograms whose top and bottom follow the wave speed
+}
+
+export interface MeasurementSettings {
+  platoonN: number;
+  platoonHeight: number; // m
+  loopInterval: number;  // min
+  loopLength: number;    // m
+  gridTimeStep: number;  // min
+  gridSpaceStep: number; // m
+  gridShape: GridShape;
+  detectorInterval: number; // min
+  vehicleLength: number;    // m
+  detectorLength: number;   // m
+  detectorZone: number;     // Length of the Edie comparison region (m)
+}
+
+// One vehicle over a point detector
+export interface VehiclePassage {
+  trajectoryId: number;
+  time: number;           // Front reaches the loop (min)
+  speed: number;          // Spot speed (m/min)
+  occupancy: number;      // Time the loop is occupied (min)
+  headway: number | null; // Since the previous vehicle (min)
+  gap: number | null;     // Since the previous vehicle left the loop (min)
+}
+
+// Individual vehicle records of one point detector
+export interface DetectorRecord {
+  lane: string;
+  batchId: number;
+  position: number; // m
+  passages: VehiclePassage[];
+}
+
+export enum HeatmapVariable {
+  SPEED = 'SPEED',
+  DENSITY = 'DENSITY',
+  FLOW = 'FLOW'
+}
+
+export enum HeatmapScale {
+  TRAFFIC = 'TRAFFIC', // Red (low) to green (high)
+  TURBO = 'TURBO',
+  VIRIDIS = 'VIRIDIS',
+  GREYS = 'GREYS'
+}
+
+export interface HeatmapSettings {
+  enabled: boolean;
+  variable: HeatmapVariable;
+  scale: HeatmapScale;
+  opacity: number;   // 0-1
+  timeStep: number;  // Cell duration (min)
+  spaceStep: number; // Cell length (m)
+}
+
+export interface VisualSettings {
+  trajColor: string;
+  brightness: number;
+  contrast: number;
+  showDots: boolean;
+  darkMode: boolean;
+  heatmap: HeatmapSettings;
+}
+
+export interface ProjectFile {
+  format: string;
+  version: number;
+  savedAt: string; // ISO timestamp
+  extent: Extent;
+  lanes: ProjectLane[];
+  currentLane: number;
+  importedDataset: string | null; // Source table of imported trajectories (blank worksurface)
+  counters: Partial<Record<AnalysisMode, number>>; // Batch counters per measurement mode
+  extraction: ExtractionSettings;
+  // Settings missing from the file keep the current session's values on restore
+  measurement: Partial<MeasurementSettings>;
+  visual: Partial<Omit<VisualSettings, 'heatmap'>> & { heatmap?: Partial<HeatmapSettings> };
+}
+
+// Autosaved workspace, offered for restore on the next start
+export interface SessionSnapshot {
+  project: ProjectFile;
+  logs: string[];
+}
+
+export interface RecentProjectEntry {
+  id: string;
+  name: string;
+  savedAt: string; // ISO timestamp
+  laneCount: number;
+  trajectoryCount: number;
+}
+
+export interface ManifestLane extends LaneMetadata {
+  file: string;
+  offset?: { time: number; space: number }; // World position of the image's lower-left corner (min, m)
+  calibration?: AxisCalibration;            // Takes precedence over extent and offset
+}
+
+// Project description loaded from a manifest (or a legacy Open_all.txt)
+export interface ProjectManifest {
+  name?: string;
+  extent: Extent;
+  lanes: ManifestLane[];
+  measurement?: Partial<MeasurementSettings>;
+  extraction?: ExtractionSettings;
+}
+
+// A named Edie measurement polygon for batch processing
+export interface MeasurementRegion {
+  name: string;
+  points: Point[]; // World coordinates (min, m)
+  lane?: string;   // Only applied to the lane with this image file name
+}
+
+// One measurement of a plan in world coordinates, replayed with the same batch ID on every lane
+export interface MeasurementStep {
+  mode: AnalysisMode;   // LINE, POLYGON, LOOP_DETECTOR or PLATOON
+  batchId: number;
+  points: Point[];      // LINE: endpoints, POLYGON: corners, LOOP_DETECTOR: [centre], PLATOON: [anchor]
+  classId?: number;
+  waveSpeed?: number;   // LOOP_DETECTOR, PLATOON (m/min)
+  interval?: number;    // LOOP_DETECTOR sample duration (min)
+  length?: number;      // LOOP_DETECTOR detector length, PLATOON slice height (m)
+  platoonSize?: number; // PLATOON
+}
+
+export interface MeasurementPlan {
+  sourceLane: number; // Lane the plan was captured from, keeps its own measurements
+  steps: MeasurementStep[];
+}
+
+// Aggregate of one plan step on one lane, or over all lanes (lane = null)
+export interface PlanSummaryRow {
+  mode: AnalysisMode;
+  batchId: number;
+  lane: string | null;
+  samples: number;
+  count?: number;   // LINE: crossings
+  flow: number;     // veh/min
+  density: number;  // veh/m
+  speed: number;    // m/min
+}
+
+export enum ScenarioModel {
+  NEWELL = 'NEWELL', // Newell's simplified car-following, one vehicle at a time
+  LWR = 'LWR'        // Cell transmission (Godunov) solution, vehicles read from the cumulative counts
+}
+
+// Synthetic traffic on a single road stretch with a triangular fundamental diagram (min, m)
+export interface ScenarioSettings {
+  model: ScenarioModel;
+  duration: number;    // min
+  length: number;      // m
+  freeSpeed: number;   // m/min
+  waveSpeed: number;   // m/min, negative
+  jamDensity: number;  // veh/m
+  demand: number;      // Upstream arrivals (veh/min)
+  randomArrivals: boolean; // Shifted exponential headways (NEWELL only)
+  seed: number;
+  timeStep: number;    // Simulation / output step (min)
+  bottleneck: { enabled: boolean; position: number; length: number; speed: number };            // Reduced free speed zone
+  stopAndGo: { enabled: boolean; position: number; start: number; period: number; stopDuration: number }; // Periodic full stops
+}
+
+// Equilibrium state of the fundamental diagram the scenario is expected to produce
+export interface TrafficState {
+  label: string;
+  flow: number;    // veh/min
+  density: number; // veh/m
+  speed: number;   // m/min
+}
+
+export interface ScenarioResult {
+  trajectories: Trajectory[];
+  extent: Extent;
+  states: TrafficState[];
+}
+
+// Deceleration front fitted through the braking points of successive vehicles
+export interface ShockwaveFront {
+  speed: number;    // Wave speed (m/min), fitted by least squares
+  start: Point;
+  end: Point;
+  events: Point[];  // Braking points the line is fitted through
+}
+
+export interface WaveEstimate {
+  fronts: ShockwaveFront[];
+  events: number;      // Braking points detected
+  freeSpeed: number;   // m/min, signed with the direction of travel
+  median: number;      // Median wave speed of the fronts (m/min)
+  quartiles: [number, number];
 }
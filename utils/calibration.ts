@@ -0,0 +1,92 @@
+import { AxisCalibration, AxisReference, Extent, Point, Trajectory } from '../types';
+
+// world = scale * pixel + offset
+export interface AxisMapping {
+  scale: number;
+  offset: number;
+}
+
+export interface PixelTransform {
+  toWorld: (p: Point) => Point;
+  toPixel: (p: Point) => Point;
+  time: AxisMapping;
+  space: AxisMapping;
+}
+
+export const EMPTY_CALIBRATION: AxisCalibration = { time: [], space: [] };
+
+// Least-squares line through the references; null if they don't span a distance
+export const fitAxis = (refs: AxisReference[]): AxisMapping | null => {
+  if (refs.length < 2) return null;
+  const n = refs.length;
+  const meanP = refs.reduce((s, r) => s + r.pixel, 0) / n;
+  const meanV = refs.reduce((s, r) => s + r.value, 0) / n;
+  let sPP = 0, sPV = 0;
+  refs.forEach(r => {
+    sPP += (r.pixel - meanP) ** 2;
+    sPV += (r.pixel - meanP) * (r.value - meanV);
+  });
+  if (sPP < 1e-9 || Math.abs(sPV) < 1e-12) return null;
+  const scale = sPV / sPP;
+  return { scale, offset: meanV - scale * meanP };
+};
+
+/**
+ * Builds the pixel <-> world mapping of an image. Uncalibrated axes map the
+ * image edges onto 0..extent (space grows upwards).
+ */
+export const createPixelTransform = (
+  width: number,
+  height: number,
+  extent: Extent,
+  calibration?: AxisCalibration | null
+): PixelTransform => {
+  const time = (calibration && fitAxis(calibration.time)) || { scale: extent.temporal / width, offset: 0 };
+  const space = (calibration && fitAxis(calibration.space)) || { scale: -extent.spatial / height, offset: extent.spatial };
+  return {
+    time,
+    space,
+    toWorld: (p: Point) => ({ x: time.scale * p.x + time.offset, y: space.scale * p.y + space.offset }),
+    toPixel: (p: Point) => ({ x: (p.x - time.offset) / time.scale, y: (p.y - space.offset) / space.scale })
+  };
+};
+
+export const isCalibrated = (calibration?: AxisCalibration | null): boolean =>
+  !!calibration && (fitAxis(calibration.time) !== null || fitAxis(calibration.space) !== null);
+
+export interface WorldBounds {
+  tMin: number;
+  tMax: number;
+  yMin: number;
+  yMax: number;
+}
+
+// World range covered by the image: [tMin, tMax] x [yMin, yMax]
+export const getWorldBounds = (width: number, height: number, transform: PixelTransform): WorldBounds => {
+  const a = transform.toWorld({ x: 0, y: height });
+  const b = transform.toWorld({ x: width, y: 0 });
+  return {
+    tMin: Math.min(a.x, b.x),
+    tMax: Math.max(a.x, b.x),
+    yMin: Math.min(a.y, b.y),
+    yMax: Math.max(a.y, b.y)
+  };
+};
+
+// Re-expresses trajectories in a new calibration (the image positions stay fixed)
+export const remapTrajectories = (trajectories: Trajectory[], from: PixelTransform, to: PixelTransform): Trajectory[] =>
+  trajectories.map(t => ({ ...t, points: t.points.map(p => to.toWorld(from.toPixel(p))) }));
+
+/**
+ * Reference points placing the image edges at offset .. offset + extent,
+ * so extracted coordinates come out in the shared corridor frame.
+ */
+export const offsetCalibration = (
+  width: number,
+  height: number,
+  extent: Extent,
+  offset: { time: number; space: number }
+): AxisCalibration => ({
+  time: [{ pixel: 0, value: offset.time }, { pixel: width, value: offset.time + extent.temporal }],
+  space: [{ pixel: height, value: offset.space }, { pixel: 0, value: offset.space + extent.spatial }],
+});
@@ -1,5 +1,5 @@
 
-import { Point } from '../types';
+import { Point, Trajectory } from '../types';
 
 export const isPointInPolygon = (point: Point, polygon: Point[]): boolean => {
   let inside = false;
@@ -72,6 +72,49 @@ export const calculatePolygonArea = (polygon: Point[]): number => {
   return Math.abs(area) / 2;
 };
 
+// Convex hull (monotone chain), counter-clockwise
+export const getConvexHull = (points: Point[]): Point[] => {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  if (sorted.length < 3) return sorted;
+  const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+  const half = (pts: Point[]) => {
+    const chain: Point[] = [];
+    pts.forEach(p => {
+      while (chain.length >= 2 && cross(chain[chain.length - 2], chain[chain.length - 1], p) <= 0) chain.pop();
+      chain.push(p);
+    });
+    chain.pop();
+    return chain;
+  };
+  return [...half(sorted), ...half([...sorted].reverse())];
+};
+
+// Sutherland-Hodgman clip of a convex polygon to the rectangle [xMin, xMax] x [yMin, yMax]
+export const clipPolygonToRect = (polygon: Point[], xMin: number, xMax: number, yMin: number, yMax: number): Point[] => {
+  const clipEdge = (points: Point[], inside: (p: Point) => boolean, cross: (a: Point, b: Point) => Point) => {
+    const out: Point[] = [];
+    points.forEach((cur, i) => {
+      const prev = points[(i + points.length - 1) % points.length];
+      if (inside(cur)) {
+        if (!inside(prev)) out.push(cross(prev, cur));
+        out.push(cur);
+      } else if (inside(prev)) {
+        out.push(cross(prev, cur));
+      }
+    });
+    return out;
+  };
+  const atX = (x: number) => (a: Point, b: Point) => ({ x, y: a.y + (b.y - a.y) * (x - a.x) / (b.x - a.x) });
+  const atY = (y: number) => (a: Point, b: Point) => ({ x: a.x + (b.x - a.x) * (y - a.y) / (b.y - a.y), y });
+
+  let points = polygon;
+  points = clipEdge(points, p => p.x >= xMin, atX(xMin));
+  points = clipEdge(points, p => p.x <= xMax, atX(xMax));
+  points = clipEdge(points, p => p.y >= yMin, atY(yMin));
+  points = clipEdge(points, p => p.y <= yMax, atY(yMax));
+  return points;
+};
+
 // Clips a trajectory segment to a polygon and returns TTD and TTT for that segment
 export const getClippedSegmentMetrics = (p1: Point, p2: Point, polygon: Point[]): { ttd: number, ttt: number } => {
   const isP1In = isPointInPolygon(p1, polygon);
@@ -104,3 +147,30 @@ export const getClippedSegmentMetrics = (p1: Point, p2: Point, polygon: Point[])
   
   return { ttd: inTTD, ttt: inTTT };
 };
+
+export interface EdieMeasures {
+  area: number;
+  ttd: number;
+  ttt: number;
+  flow: number;
+  density: number;
+  speed: number;
+}
+
+// Edie's generalised flow, density and speed of the trajectories within a polygon
+export const getEdieMeasures = (trajectories: Trajectory[], polygon: Point[]): EdieMeasures => {
+  let ttd = 0, ttt = 0;
+  const area = calculatePolygonArea(polygon);
+  trajectories.forEach(t => {
+    for (let i = 0; i < t.points.length - 1; i++) {
+      const m = getClippedSegmentMetrics(t.points[i], t.points[i+1], polygon);
+      ttd += m.ttd; ttt += m.ttt;
+    }
+  });
+  return {
+    area, ttd, ttt,
+    flow: area > 0 ? ttd / area : 0,
+    density: area > 0 ? ttt / area : 0,
+    speed: ttt > 0 ? ttd / ttt : 0
+  };
+};
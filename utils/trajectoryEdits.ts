@@ -0,0 +1,68 @@
+import { AnalysisMode, AnalysisVisual, Point, Trajectory } from '../types';
+import { getLineIntersection, isPointInPolygon } from './geometry';
+
+export const nextTrajectoryId = (trajectories: Trajectory[]): number =>
+  trajectories.reduce((max, t) => Math.max(max, t.id), 0) + 1;
+
+// Distance from p to segment a-b (world units, used to locate a point lying on the polyline)
+const distanceToSegment = (p: Point, a: Point, b: Point): number => {
+  const l2 = (b.x - a.x) ** 2 + (b.y - a.y) ** 2;
+  if (l2 === 0) return Math.hypot(p.x - a.x, p.y - a.y);
+  const t = Math.max(0, Math.min(1, ((p.x - a.x) * (b.x - a.x) + (p.y - a.y) * (b.y - a.y)) / l2));
+  return Math.hypot(p.x - (a.x + t * (b.x - a.x)), p.y - (a.y + t * (b.y - a.y)));
+};
+
+/**
+ * Cuts a trajectory at a point on it. The second half gets newId.
+ * Returns null when either half would have fewer than two points.
+ */
+export const splitTrajectory = (traj: Trajectory, at: Point, newId: number): [Trajectory, Trajectory] | null => {
+  let segment = -1;
+  let best = Infinity;
+  for (let i = 0; i < traj.points.length - 1; i++) {
+    const d = distanceToSegment(at, traj.points[i], traj.points[i + 1]);
+    if (d < best) { best = d; segment = i; }
+  }
+  if (segment === -1) return null;
+
+  const head = [...traj.points.slice(0, segment + 1), at];
+  const tail = [at, ...traj.points.slice(segment + 1)];
+  // Drop the duplicate when the cut falls on a vertex
+  const clean = (points: Point[]) => points.filter((p, i) => i === 0 || p.x !== points[i - 1].x || p.y !== points[i - 1].y);
+  const first = clean(head), second = clean(tail);
+  if (first.length < 2 || second.length < 2) return null;
+  return [{ ...traj, points: first }, { ...traj, id: newId, points: second }];
+};
+
+/**
+ * Joins two trajectories into one time-ordered polyline (keeps a's id and class).
+ */
+export const mergeTrajectories = (a: Trajectory, b: Trajectory): Trajectory => {
+  const points = [...a.points, ...b.points].sort((p, q) => p.x - q.x);
+  return { ...a, points: points.filter((p, i) => i === 0 || p.x > points[i - 1].x) };
+};
+
+/**
+ * Whether a trajectory runs through a measurement's geometry, i.e. whether
+ * editing it changes that measurement.
+ */
+export const trajectoryTouchesVisual = (traj: Trajectory, visual: AnalysisVisual): boolean => {
+  const { points } = traj;
+  const shape = visual.points;
+  if (shape.length < 2) return false;
+
+  if (visual.mode === AnalysisMode.LINE) {
+    for (let i = 0; i < points.length - 1; i++) {
+      if (getLineIntersection(shape[0], shape[1], points[i], points[i + 1])) return true;
+    }
+    return false;
+  }
+
+  if (points.some(p => isPointInPolygon(p, shape))) return true;
+  for (let i = 0; i < points.length - 1; i++) {
+    for (let j = 0; j < shape.length; j++) {
+      if (getLineIntersection(points[i], points[i + 1], shape[j], shape[(j + 1) % shape.length])) return true;
+    }
+  }
+  return false;
+};